@@ -1,8 +1,7 @@
 import dotenv from 'dotenv';
-dotenv.config();
+import type { Network } from '@x402/core/types';
 
-// Network type for x402
-type Network = `${string}:${string}`;
+dotenv.config();
 
 // Default to Base Sepolia for x402.org facilitator - use env var for mainnet with CDP facilitator
 const DEFAULT_NETWORK: Network = 'eip155:84532';
@@ -14,13 +13,112 @@ export const config = {
   // x402 Configuration
   payToAddress: (process.env.PAY_TO_ADDRESS || '0xede1a30a8b04cca77ecc8d690c552ac7b0d63817') as `0x${string}`,
   facilitatorUrl: process.env.FACILITATOR_URL || 'https://x402.org/facilitator',
-  network: (process.env.NETWORK || DEFAULT_NETWORK) as Network,
+  // Networks paid with the `exact` scheme and their default USDC (comma-separated
+  // CAIP-2 ids), unless PAYMENT_METHODS_FILE lists the payment methods instead
+  networks: (process.env.NETWORK || DEFAULT_NETWORK).split(',').map(n => n.trim()).filter(Boolean) as Network[],
+  paymentMethodsFile: process.env.PAYMENT_METHODS_FILE,
   
   // Pricing (in USD)
   pricing: {
     tokenPrice: '$0.001',      // Per token price check
     portfolioAnalysis: '$0.005', // Per portfolio analysis
+    portfolioRisk: '$0.02',    // Per portfolio analysis with risk metrics
     tradingSignals: '$0.01',   // Per trading signal generation
+    backtest: '$0.02',         // Per signal backtest
+    history: '$0.005',         // Per historical OHLCV request
+    tokenRisk: '$0.01',        // Per token risk screen
+    streamMinute: '$0.001',    // Per minute of price streaming
+    alertDay: '$0.005',        // Per day an alert is watched
+  },
+  
+  // Optional JSON file with volume tiers, partner discounts and complexity
+  // surcharges applied on top of the prices above (see pricing.example.json)
+  pricingRulesFile: process.env.PRICING_RULES_FILE,
+  
+  // Maximum number of tokens in a single POST /api/prices request
+  maxBatchSize: 50,
+  
+  // Paid requests still running after this long are answered with a 504 and
+  // their payment is not settled
+  requestTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT_MS || '30000', 10),
+  
+  // Trading signals for contract-address tokens warn below these
+  signals: {
+    thinLiquidityUsd: 50000,   // Liquidity of the most liquid DEX pair
+    newPairDays: 7,            // Age of that pair
+  },
+  
+  // JSON-RPC endpoints the token risk screen reads contract traits from (EVM
+  // chains only)
+  rpcUrls: {
+    ethereum: process.env.RPC_URL_ETHEREUM || 'https://ethereum-rpc.publicnode.com',
+    base: process.env.RPC_URL_BASE || 'https://base-rpc.publicnode.com',
+    arbitrum: process.env.RPC_URL_ARBITRUM || 'https://arbitrum-one-rpc.publicnode.com',
+    optimism: process.env.RPC_URL_OPTIMISM || 'https://optimism-rpc.publicnode.com',
+    polygon: process.env.RPC_URL_POLYGON || 'https://polygon-bor-rpc.publicnode.com',
+    avalanche: process.env.RPC_URL_AVALANCHE || 'https://avalanche-c-chain-rpc.publicnode.com',
+    bsc: process.env.RPC_URL_BSC || 'https://bsc-rpc.publicnode.com',
+  } as Record<string, string>,
+  
+  // Price streaming: subscriptions bought from POST /api/stream and consumed
+  // as server-sent events from GET /api/stream
+  stream: {
+    maxTokens: 10,
+    minIntervalSeconds: 10,
+    maxIntervalSeconds: 300,
+    maxDurationMinutes: 1440,
+    heartbeatSeconds: 15,
+    tickMs: 1000,              // How often the shared polling loop checks for due pushes
+  },
+  
+  // Alerts: conditions bought from POST /api/alerts, checked on a schedule and
+  // delivered to the caller's webhook
+  alerts: {
+    maxConditions: 5,
+    maxDurationDays: 30,
+    checkIntervalSeconds: parseInt(process.env.ALERT_CHECK_SECONDS || '60', 10),
+    maxAttempts: 4,            // Webhook delivery attempts per trigger
+    retryBaseMs: 5000,         // Delay before the first retry, doubled for each one after
+    deliveryTimeoutMs: 10000,
+    historyLimit: 50,          // Deliveries kept per alert
+    filePath: process.env.ALERTS_FILE || './alerts.json',
+  },
+  
+  // Prepaid credits: bought with one x402 payment to POST /api/credits and
+  // spent with the returned session token
+  credits: {
+    minPurchaseUsd: 0.1,
+    maxPurchaseUsd: 100,
+    sessionTtlDays: 30,
+    filePath: process.env.CREDITS_FILE || './credits.json',
+    secret: process.env.CREDITS_SECRET, // Signs session tokens
+  },
+  
+  // Usage ledger: every paid request with its payer, price and outcome
+  ledger: {
+    filePath: process.env.LEDGER_FILE || './ledger.jsonl',
+  },
+  
+  // Bearer token for the /admin endpoints (disabled when unset)
+  adminToken: process.env.ADMIN_TOKEN,
+  
+  // Token registry: the bundled src/data/tokens.json plus CoinGecko's coin
+  // list, refreshed on this schedule (0 disables refreshing)
+  tokens: {
+    refreshHours: parseFloat(process.env.TOKEN_LIST_REFRESH_HOURS || '24'),
+  },
+  
+  // Response caching (TTLs in seconds per data type)
+  cache: {
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10),
+    filePath: process.env.CACHE_FILE, // Optional: persist cache to a JSON file
+    ttlSeconds: {
+      price: 30,
+      history: 300,
+      wallet: 60,
+      contract: 600,
+      fx: 300,
+    },
   },
   
   // External API keys
@@ -28,4 +126,10 @@ export const config = {
   dexscreenerApiKey: process.env.DEXSCREENER_API_KEY,
 } as const;
 
-export const isMainnet = config.network === 'eip155:8453';
+/**
+ * Multiply a '$x.yyy' price by a quantity, rounded to USDC's 6 decimals.
+ */
+export function scalePrice(unitPrice: string, quantity: number): `$${string}` {
+  const total = parseFloat(unitPrice.replace('$', '')) * quantity;
+  return `$${parseFloat(total.toFixed(6))}`;
+}
@@ -0,0 +1,129 @@
+import type { Response } from 'express';
+import type { ApiResponse, ErrorCode, FieldError, TokenCandidate } from './types.js';
+
+// Base class for errors that map to a specific HTTP status and `code` in the
+// API response. Anything else reaching a handler is reported as INTERNAL_ERROR.
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: ErrorCode) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, public readonly details?: FieldError[]) {
+    super(message, 400, 'INVALID_REQUEST');
+  }
+}
+
+export class InvalidAddressError extends ApiError {
+  constructor(message: string = 'Invalid wallet address format') {
+    super(message, 400, 'INVALID_ADDRESS');
+  }
+}
+
+export class UnsupportedChainError extends ApiError {
+  constructor(message: string) {
+    super(message, 400, 'UNSUPPORTED_CHAIN');
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string) {
+    super(message, 401, 'UNAUTHORIZED');
+  }
+}
+
+// A session token's prepaid balance doesn't cover the request
+export class InsufficientCreditError extends ApiError {
+  constructor(message: string) {
+    super(message, 402, 'INSUFFICIENT_CREDIT');
+  }
+}
+
+export class TokenNotFoundError extends ApiError {
+  constructor(message: string) {
+    super(message, 404, 'TOKEN_NOT_FOUND');
+  }
+}
+
+// A ticker shared by several tokens: rather than guess, list them so the
+// caller can retry with an id or contract address
+export class AmbiguousSymbolError extends ApiError {
+  constructor(message: string, public readonly candidates: TokenCandidate[]) {
+    super(message, 409, 'AMBIGUOUS_SYMBOL');
+  }
+}
+
+// The upstream answered, but not with enough data to compute a result
+export class InsufficientDataError extends ApiError {
+  constructor(message: string) {
+    super(message, 422, 'INSUFFICIENT_DATA');
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(message: string, public readonly retryAfterSeconds?: number) {
+    super(message, 429, 'RATE_LIMITED');
+  }
+}
+
+export class UpstreamUnavailableError extends ApiError {
+  constructor(message: string) {
+    super(message, 503, 'UPSTREAM_UNAVAILABLE');
+  }
+}
+
+export class RequestTimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super(`Request did not complete within ${timeoutMs / 1000}s`, 504, 'REQUEST_TIMEOUT');
+  }
+}
+
+/**
+ * Classify a failed upstream call. Typed errors pass through unchanged, HTTP
+ * 429s become RateLimitedError, and everything else (timeouts, 5xx, bad
+ * payloads) is reported as the upstream being unavailable.
+ */
+export function upstreamError(error: any, message: string): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error.response?.status === 429) {
+    const retryAfter = Number(error.response.headers?.['retry-after']);
+    return new RateLimitedError(`${message}: rate limited`, Number.isFinite(retryAfter) ? retryAfter : undefined);
+  }
+  return new UpstreamUnavailableError(`${message}: ${error.message}`);
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  return new ApiError(error instanceof Error ? error.message : String(error), 500, 'INTERNAL_ERROR');
+}
+
+// Every failure is reported with a non-2xx status, which the x402 middleware
+// treats as "do not settle": the buyer is only charged for successful results
+export function sendError(res: Response, error: unknown) {
+  const apiError = toApiError(error);
+  // Recorded for the payment log; the request may already have timed out
+  res.locals.error = apiError;
+  if (res.locals.timedOut) return;
+  
+  if (apiError.status >= 500) {
+    console.error(`${apiError.code}:`, apiError.message);
+  }
+  if (apiError instanceof RateLimitedError && apiError.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(apiError.retryAfterSeconds));
+  }
+  
+  res.status(apiError.status).json({
+    success: false,
+    error: apiError.message,
+    code: apiError.code,
+    details: apiError instanceof ValidationError ? apiError.details : undefined,
+    candidates: apiError instanceof AmbiguousSymbolError ? apiError.candidates : undefined,
+    timestamp: new Date().toISOString(),
+  } as ApiResponse<null>);
+}
@@ -1,14 +1,19 @@
 import express from 'express';
 import { paymentMiddleware } from '@x402/express';
 import { x402ResourceServer, HTTPFacilitatorClient } from '@x402/core/server';
-import { registerExactEvmScheme } from '@x402/evm/exact/server';
-import { bazaarResourceServerExtension, declareDiscoveryExtension } from '@x402/extensions/bazaar';
-import { config, isMainnet } from './config.js';
-import { serviceMetadata } from './routes.js';
-import { getTokenPrice } from './services/price.service.js';
-import { analyzePortfolio } from './services/portfolio.service.js';
-import { generateTradingSignals } from './services/signals.service.js';
-import type { ApiResponse } from './types.js';
+import { bazaarResourceServerExtension } from '@x402/extensions/bazaar';
+import { config } from './config.js';
+import { isMainnet, isTestnet, paymentMethods, registerPaymentSchemes } from './payments.js';
+import { skillRoutes, serviceMetadata, buildPaymentRoutes, listEndpoints, listedPrice, registerCredits, registerRoutes, registerValidation } from './routes/index.js';
+import { RequestTimeoutError, sendError } from './errors.js';
+import { paidRequestEntry, recordEntry } from './services/ledger.service.js';
+import { describePricingRules } from './services/pricing.service.js';
+import { startTokenListRefresh } from './services/registry.service.js';
+import { requireAdmin, revenueHandler } from './routes/admin.route.js';
+import { creditsBalanceHandler } from './routes/credits.route.js';
+import { streamHandler } from './routes/stream.route.js';
+import { alertHistoryHandler, cancelAlertHandler } from './routes/alerts.route.js';
+import type { SkillRoute } from './types.js';
 
 const app = express();
 app.use(express.json());
@@ -16,9 +21,9 @@ app.use(express.json());
 // CORS middleware
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Payment-Signature, X-Payment');
-  res.header('Access-Control-Expose-Headers', 'Payment-Required, X-Payment-Response');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Payment-Signature, X-Payment, X-Payer-Address');
+  res.header('Access-Control-Expose-Headers', 'Payment-Required, X-Payment-Response, X-Credits-Charged');
   if (req.method === 'OPTIONS') {
     return res.sendStatus(200);
   }
@@ -36,143 +41,16 @@ const facilitatorClient = new HTTPFacilitatorClient({
 
 // Create resource server and register extensions
 const server = new x402ResourceServer(facilitatorClient);
-registerExactEvmScheme(server);
+registerPaymentSchemes(server);
 server.registerExtension(bazaarResourceServerExtension);
 
-// =============================================================================
-// Route Configuration with Bazaar Discovery
-// =============================================================================
-
-const paymentRoutes = {
-  'GET /api/price': {
-    accepts: {
-      scheme: 'exact' as const,
-      price: config.pricing.tokenPrice,
-      network: config.network,
-      payTo: config.payToAddress,
-    },
-    extensions: {
-      ...declareDiscoveryExtension({
-        input: { symbol: 'ETH', chain: 'base' },
-        inputSchema: {
-          properties: {
-            symbol: { type: 'string', description: 'Token symbol (e.g., BTC, ETH, SOL)' },
-            contractAddress: { type: 'string', description: 'Token contract address' },
-            chain: { type: 'string', description: 'Blockchain (ethereum, base, arbitrum, polygon, solana)' },
-          },
-        },
-        output: {
-          example: {
-            success: true,
-            data: {
-              symbol: 'ETH',
-              name: 'Ethereum',
-              price: 3245.67,
-              priceChange24h: 45.23,
-              priceChangePercentage24h: 1.41,
-              marketCap: 389000000000,
-              volume24h: 12500000000,
-            },
-          },
-          schema: {
-            properties: {
-              success: { type: 'boolean' },
-              data: {
-                type: 'object',
-                properties: {
-                  symbol: { type: 'string' },
-                  name: { type: 'string' },
-                  price: { type: 'number' },
-                  priceChange24h: { type: 'number' },
-                  priceChangePercentage24h: { type: 'number' },
-                  marketCap: { type: 'number' },
-                  volume24h: { type: 'number' },
-                },
-              },
-            },
-          },
-        },
-      }),
-    },
-  },
-  'GET /api/portfolio/:address': {
-    accepts: {
-      scheme: 'exact' as const,
-      price: config.pricing.portfolioAnalysis,
-      network: config.network,
-      payTo: config.payToAddress,
-    },
-    extensions: {
-      ...declareDiscoveryExtension({
-        input: { address: '0x...', chain: 'base' },
-        inputSchema: {
-          properties: {
-            address: { type: 'string', description: 'Wallet address to analyze', pattern: '^0x[a-fA-F0-9]{40}$' },
-            chain: { type: 'string', description: 'Blockchain (defaults to base)' },
-          },
-          required: ['address'],
-        },
-        output: {
-          example: {
-            success: true,
-            data: {
-              walletAddress: '0x1234...5678',
-              totalValueUsd: 12500.50,
-              tokenCount: 8,
-              diversificationScore: 65,
-            },
-          },
-        },
-      }),
-    },
-  },
-  'GET /api/signals/:symbol': {
-    accepts: {
-      scheme: 'exact' as const,
-      price: config.pricing.tradingSignals,
-      network: config.network,
-      payTo: config.payToAddress,
-    },
-    extensions: {
-      ...declareDiscoveryExtension({
-        input: { symbol: 'ETH' },
-        inputSchema: {
-          properties: {
-            symbol: { type: 'string', description: 'Token symbol to analyze (e.g., BTC, ETH, SOL)' },
-          },
-          required: ['symbol'],
-        },
-        output: {
-          example: {
-            success: true,
-            data: {
-              symbol: 'ETH',
-              currentPrice: 3245.67,
-              overallSignal: 'buy',
-              confidence: 72,
-              trend: 'bullish',
-            },
-          },
-          schema: {
-            properties: {
-              success: { type: 'boolean' },
-              data: {
-                type: 'object',
-                properties: {
-                  symbol: { type: 'string' },
-                  currentPrice: { type: 'number' },
-                  overallSignal: { type: 'string', enum: ['strong_buy', 'buy', 'neutral', 'sell', 'strong_sell'] },
-                  confidence: { type: 'number' },
-                  trend: { type: 'string', enum: ['bullish', 'bearish', 'sideways'] },
-                },
-              },
-            },
-          },
-        },
-      }),
-    },
-  },
-};
+// Settlement outcomes are logged so charges can be reconciled per payer
+server.onAfterSettle(async ({ requirements, result }) => {
+  console.log(`[x402] Settled ${requirements.amount} ${requirements.asset} from ${result.payer || 'unknown payer'}: ${result.transaction}`);
+});
+server.onSettleFailure(async ({ error }) => {
+  console.error('[x402] Settlement failed:', error.message);
+});
 
 // =============================================================================
 // Health & Info Endpoints (Free)
@@ -187,14 +65,17 @@ app.get('/', (req, res) => {
     x402: {
       enabled: true,
       facilitator: config.facilitatorUrl,
-      network: config.network,
+      network: paymentMethods[0].network,
       mainnet: isMainnet,
+      paymentMethods: paymentMethods.map(method => ({
+        scheme: method.scheme,
+        network: method.network,
+        asset: method.asset?.address || 'default',
+        testnet: isTestnet(method.network),
+      })),
     },
-    endpoints: [
-      { path: '/api/price', method: 'GET', price: config.pricing.tokenPrice, description: 'Token price data' },
-      { path: '/api/portfolio/:address', method: 'GET', price: config.pricing.portfolioAnalysis, description: 'Wallet portfolio analysis' },
-      { path: '/api/signals/:symbol', method: 'GET', price: config.pricing.tradingSignals, description: 'Trading signals' },
-    ],
+    endpoints: listEndpoints(skillRoutes),
+    pricing: describePricingRules(),
     categories: serviceMetadata.categories,
     tags: serviceMetadata.tags,
   });
@@ -204,130 +85,129 @@ app.get('/health', (req, res) => {
   res.json({ status: 'healthy', timestamp: new Date().toISOString() });
 });
 
+// Remaining prepaid credit and usage for a session token
+app.get('/api/credits', creditsBalanceHandler);
+
+// Server-sent price updates for a subscription bought from POST /api/stream
+app.get('/api/stream', streamHandler);
+
+// Status and delivery history of an alert bought from POST /api/alerts, and
+// cancelling it
+app.get('/api/alerts', alertHistoryHandler);
+app.delete('/api/alerts', cancelAlertHandler);
+
 // =============================================================================
-// Paid API Endpoints with Official x402 Middleware
+// Admin Endpoints (Free, token-protected)
 // =============================================================================
 
-// Apply official x402 payment middleware
-app.use(paymentMiddleware(paymentRoutes, server));
+app.get('/admin/revenue', requireAdmin, revenueHandler);
 
-// Token Price Checker
-app.get('/api/price', async (req, res) => {
-  try {
-    const { symbol, contractAddress, chain } = req.query;
-    
-    if (!symbol && !contractAddress) {
-      return res.status(400).json({
-        success: false,
-        error: 'Either symbol or contractAddress must be provided',
-        timestamp: new Date().toISOString(),
-      } as ApiResponse<null>);
+// =============================================================================
+// Paid API Endpoints with Official x402 Middleware
+// =============================================================================
+
+// Verify-then-settle: the payment middleware verifies the payment up front,
+// buffers the handler's response, and only settles with the facilitator once
+// the handler has answered with a success status. Anything else is voided.
+// Every paid attempt is written to the usage ledger with its outcome.
+app.use((req, res, next) => {
+  const paymentHeader = req.header('payment-signature') || req.header('x-payment');
+  if (!paymentHeader) {
+    return next();
+  }
+  const startedAt = Date.now();
+  res.on('finish', () => {
+    const verified = Boolean(res.locals.paymentVerified);
+    // 402s are payment failures, not voided requests
+    if (verified && res.statusCode >= 400 && res.statusCode !== 402) {
+      const reason = res.locals.error
+        ? `${res.locals.error.code}: ${res.locals.error.message}`
+        : `HTTP ${res.statusCode}`;
+      console.warn(`[x402] Payment voided for ${req.method} ${req.originalUrl} (${res.statusCode}) - ${reason}`);
     }
     
-    const priceData = await getTokenPrice({
-      symbol: symbol as string | undefined,
-      contractAddress: contractAddress as string | undefined,
-      chain: chain as string | undefined,
-    });
-    
-    res.json({
-      success: true,
-      data: priceData,
-      timestamp: new Date().toISOString(),
-    } as ApiResponse<typeof priceData>);
-    
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-      timestamp: new Date().toISOString(),
-    } as ApiResponse<null>);
-  }
+    const route = res.locals.skillRoute as SkillRoute | undefined;
+    if (route) {
+      recordEntry(paidRequestEntry({
+        route: `${route.method} ${route.path}`,
+        paymentHeader,
+        paymentResponseHeader: res.getHeader('payment-response') as string | undefined,
+        verified,
+        status: res.statusCode,
+        latencyMs: Date.now() - startedAt,
+        error: res.locals.error?.code,
+      }));
+    }
+  });
+  next();
 });
 
-// Wallet Portfolio Analysis
-app.get('/api/portfolio/:address', async (req, res) => {
-  try {
-    const { address } = req.params;
-    const { chain = 'base' } = req.query;
-    
-    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid wallet address format',
-        timestamp: new Date().toISOString(),
-      } as ApiResponse<null>);
-    }
-    
-    const portfolio = await analyzePortfolio(address, chain as string);
-    
-    res.json({
-      success: true,
-      data: portfolio,
-      timestamp: new Date().toISOString(),
-    } as ApiResponse<typeof portfolio>);
-    
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-      timestamp: new Date().toISOString(),
-    } as ApiResponse<null>);
-  }
+// Reject malformed requests before a payment is asked for
+registerValidation(app, skillRoutes);
+
+// Session tokens can pay from prepaid credits instead of per-call x402 payments
+registerCredits(app, skillRoutes);
+
+// Apply official x402 payment middleware to everything not paid with credits
+const x402 = paymentMiddleware(buildPaymentRoutes(skillRoutes), server);
+app.use((req, res, next) => res.locals.paidWithCredits ? next() : x402(req, res, next));
+
+// Only requests with a verified payment (or paid from credits) get this far
+app.use((req, res, next) => {
+  res.locals.paymentVerified = true;
+  next();
 });
 
-// Trading Signals
-app.get('/api/signals/:symbol', async (req, res) => {
-  try {
-    const { symbol } = req.params;
-    
-    if (!symbol || symbol.length > 10) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid symbol',
-        timestamp: new Date().toISOString(),
-      } as ApiResponse<null>);
-    }
-    
-    const signals = await generateTradingSignals(symbol);
-    
-    res.json({
-      success: true,
-      data: signals,
-      timestamp: new Date().toISOString(),
-    } as ApiResponse<typeof signals>);
-    
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-      timestamp: new Date().toISOString(),
-    } as ApiResponse<null>);
-  }
+// Answer slow handlers with a 504 so their payment is voided instead of held
+// open. The clock stops once the handler responds (settlement isn't counted),
+// and whatever a timed-out handler sends afterwards is dropped.
+app.use((req, res, next) => {
+  const timer = setTimeout(() => {
+    sendError(res, new RequestTimeoutError(config.requestTimeoutMs));
+    res.locals.timedOut = true;
+  }, config.requestTimeoutMs);
+  res.on('close', () => clearTimeout(timer));
+  
+  const json = res.json.bind(res);
+  const end = res.end.bind(res);
+  res.json = (body) => res.locals.timedOut ? res : json(body);
+  res.end = ((...args: Parameters<typeof end>) => {
+    clearTimeout(timer);
+    return res.locals.timedOut ? res : end(...args);
+  }) as typeof res.end;
+  next();
 });
 
+registerRoutes(app, skillRoutes);
+
 // =============================================================================
 // Start Server
 // =============================================================================
 
 app.listen(config.port, () => {
+  const networks = [...new Set(paymentMethods.map(method => method.network))];
+  const networkList = networks.length > 2 ? `${networks.slice(0, 2).join(', ')} +${networks.length - 2}` : networks.join(', ');
+  const endpointBanner = skillRoutes.map(route =>
+    `║    ${`${route.method} ${route.path}`.padEnd(35)}${listedPrice(route).padEnd(9)} per ${(route.priceUnit || 'call').padEnd(5)}  ║`
+  ).join('\n');
+  
   console.log(`
 ╔════════════════════════════════════════════════════════════════╗
 ║     UPSKILL Market Analysis - x402 Official SDK               ║
 ╠════════════════════════════════════════════════════════════════╣
 ║  Server:      http://localhost:${config.port}                        ║
-║  Network:     ${config.network.padEnd(29)}         ║
+║  Networks:    ${networkList.padEnd(29)}         ║
 ║  Mainnet:     ${String(isMainnet).padEnd(29)}         ║
 ║  Facilitator: ${config.facilitatorUrl.padEnd(28)}║
 ╠════════════════════════════════════════════════════════════════╣
 ║  Endpoints (Bazaar Discoverable):                              ║
-║    GET /api/price?symbol=ETH          ${config.pricing.tokenPrice.padEnd(9)} per call   ║
-║    GET /api/portfolio/:address        ${config.pricing.portfolioAnalysis.padEnd(9)} per call   ║
-║    GET /api/signals/:symbol           ${config.pricing.tradingSignals.padEnd(9)} per call   ║
+${endpointBanner}
 ╠════════════════════════════════════════════════════════════════╣
 ║  Payment Wallet: ${config.payToAddress.slice(0, 20)}...   ║
 ╚════════════════════════════════════════════════════════════════╝
   `);
+  
+  startTokenListRefresh();
 });
 
 export default app;
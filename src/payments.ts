@@ -0,0 +1,152 @@
+import { readFileSync } from 'node:fs';
+import type { RouteConfig, x402ResourceServer } from '@x402/core/server';
+import type { Network, Price } from '@x402/core/types';
+import { registerExactEvmScheme } from '@x402/evm/exact/server';
+import { config } from './config.js';
+import type { PaymentMethod, RoutePrice } from './types.js';
+
+// Server-side scheme implementations, keyed by `${scheme}:${CAIP-2 namespace}`.
+// Accepting another scheme or chain family is a matter of adding its
+// package's register function here.
+const SCHEME_REGISTRARS: Record<string, (server: x402ResourceServer, networks: Network[]) => void> = {
+  'exact:eip155': (server, networks) => registerExactEvmScheme(server, { networks }),
+};
+
+// Networks paid with test tokens. Anything else counts as mainnet.
+const TESTNETS = new Set<string>([
+  'eip155:84532',    // Base Sepolia
+  'eip155:11155111', // Ethereum Sepolia
+  'eip155:421614',   // Arbitrum Sepolia
+  'eip155:11155420', // Optimism Sepolia
+  'eip155:80002',    // Polygon Amoy
+  'eip155:43113',    // Avalanche Fuji
+]);
+
+const NETWORK_PATTERN = /^[a-z0-9-]{3,8}:[a-zA-Z0-9-]{1,32}$/;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+function registrarKey(method: Pick<PaymentMethod, 'scheme' | 'network'>): string {
+  return `${method.scheme}:${method.network.split(':')[0]}`;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkPaymentMethod(method: unknown, where: string): PaymentMethod {
+  if (!isObject(method)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  const { network, payTo, asset } = method;
+  if (typeof network !== 'string' || !NETWORK_PATTERN.test(network)) {
+    throw new Error(`${where}: network must be a CAIP-2 id such as eip155:8453`);
+  }
+  const scheme = method.scheme ?? 'exact';
+  if (typeof scheme !== 'string') {
+    throw new Error(`${where}: scheme must be a string`);
+  }
+  if (!SCHEME_REGISTRARS[registrarKey({ scheme, network: network as Network })]) {
+    throw new Error(`${where}: unsupported scheme ${scheme} on ${network}. Supported: ${Object.keys(SCHEME_REGISTRARS).join(', ')}`);
+  }
+  if (payTo !== undefined && (typeof payTo !== 'string' || !ADDRESS_PATTERN.test(payTo))) {
+    throw new Error(`${where}: payTo must be a 0x wallet address`);
+  }
+  if (asset === undefined) {
+    return { scheme, network: network as Network, payTo };
+  }
+  if (!isObject(asset) || typeof asset.address !== 'string' || !ADDRESS_PATTERN.test(asset.address)) {
+    throw new Error(`${where}: asset.address must be a token contract address`);
+  }
+  if (typeof asset.decimals !== 'number' || !Number.isInteger(asset.decimals) || asset.decimals < 0) {
+    throw new Error(`${where}: asset.decimals must be a non-negative integer`);
+  }
+  if (typeof asset.name !== 'string' || typeof asset.version !== 'string') {
+    throw new Error(`${where}: asset.name and asset.version (the token's EIP-712 domain) are required`);
+  }
+  return {
+    scheme,
+    network: network as Network,
+    payTo,
+    asset: { address: asset.address, decimals: asset.decimals, name: asset.name, version: asset.version },
+  };
+}
+
+/**
+ * Load the accepted payment methods from a JSON file. Without one, every
+ * network in NETWORK is accepted with the `exact` scheme and its default USDC.
+ */
+export function loadPaymentMethods(filePath: string | undefined): PaymentMethod[] {
+  if (!filePath) {
+    return config.networks.map((network, i) => checkPaymentMethod({ network }, `NETWORK[${i}]`));
+  }
+  
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to load payment methods from ${filePath}: ${error.message}`);
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error(`${filePath}: expected a non-empty array of payment methods`);
+  }
+  return raw.map((method, i) => checkPaymentMethod(method, `${filePath}: [${i}]`));
+}
+
+export const paymentMethods: PaymentMethod[] = loadPaymentMethods(config.paymentMethodsFile);
+
+export const isTestnet = (network: string): boolean => TESTNETS.has(network);
+
+// True if any accepted payment settles real funds
+export const isMainnet = paymentMethods.some(method => !isTestnet(method.network));
+
+/**
+ * Register the scheme implementation for every configured payment method.
+ */
+export function registerPaymentSchemes(server: x402ResourceServer): void {
+  const networksByKey = new Map<string, Network[]>();
+  for (const method of paymentMethods) {
+    const key = registrarKey(method);
+    networksByKey.set(key, [...(networksByKey.get(key) || []), method.network]);
+  }
+  for (const [key, networks] of networksByKey) {
+    SCHEME_REGISTRARS[key](server, [...new Set(networks)]);
+  }
+}
+
+// Convert a '$x.yyy' price into units of a USD-pegged token
+function toTokenUnits(price: string, decimals: number): string {
+  const [whole, fraction = ''] = price.replace('$', '').split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0').slice(0, decimals)).toString();
+}
+
+/**
+ * Build a route's `accepts` list: one entry per payment method, all charging
+ * the same USD price. Methods with an explicit asset are priced in that token
+ * (assumed to be pegged to USD); the rest use the scheme's default stablecoin.
+ */
+export function buildAccepts(price: RoutePrice): RouteConfig['accepts'] {
+  return paymentMethods.map(method => {
+    const priceIn = (usd: `$${string}`): Price => method.asset
+      ? {
+          amount: toTokenUnits(usd, method.asset.decimals),
+          asset: method.asset.address,
+          extra: { name: method.asset.name, version: method.asset.version },
+        }
+      : usd;
+    return {
+      scheme: method.scheme,
+      network: method.network,
+      payTo: method.payTo || config.payToAddress,
+      price: typeof price === 'function' ? (context) => priceIn(price(context)) : priceIn(price),
+    };
+  });
+}
+
+/**
+ * Decimals of a payment asset, for converting ledger amounts back to USD.
+ * Default assets are USDC, which has 6.
+ */
+export function assetDecimals(network: string | undefined, asset: string | undefined): number {
+  const method = paymentMethods.find(m =>
+    m.network === network && m.asset?.address.toLowerCase() === asset?.toLowerCase());
+  return method?.asset?.decimals ?? 6;
+}
@@ -0,0 +1,36 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { RequestHandler } from 'express';
+import { config } from '../config.js';
+import { UnauthorizedError, ValidationError, sendError } from '../errors.js';
+import { revenueReport } from '../services/ledger.service.js';
+import type { ApiResponse } from '../types.js';
+
+// Admin endpoints are free but require `Authorization: Bearer <ADMIN_TOKEN>`
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!config.adminToken) {
+    return sendError(res, new UnauthorizedError('Admin endpoints are disabled: set ADMIN_TOKEN to enable them'));
+  }
+  const expected = Buffer.from(`Bearer ${config.adminToken}`);
+  const given = Buffer.from(req.header('authorization') || '');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return sendError(res, new UnauthorizedError('Invalid admin token'));
+  }
+  next();
+};
+
+// Revenue Report
+export const revenueHandler: RequestHandler = (req, res) => {
+  const days = req.query.days === undefined ? 30 : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return sendError(res, new ValidationError('days must be an integer between 1 and 365'));
+  }
+  
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const report = revenueReport(since);
+  
+  res.json({
+    success: true,
+    data: report,
+    timestamp: new Date().toISOString(),
+  } as ApiResponse<typeof report>);
+};
@@ -0,0 +1,248 @@
+import type { Request, RequestHandler } from 'express';
+import { config, scalePrice } from '../config.js';
+import { UnauthorizedError, sendError } from '../errors.js';
+import {
+  CONDITION_TYPES,
+  createAlert,
+  deleteAlert,
+  findAlert,
+  isPrivateAddress,
+  resolveWebhookHost,
+  type Alert,
+  type AlertCondition,
+} from '../services/alerts.service.js';
+import { getTokenPrice } from '../services/price.service.js';
+import { SIGNAL_INTERVALS, type SignalInterval } from '../services/signals.service.js';
+import { bearerToken } from './credits.route.js';
+import type { ApiResponse, FieldError, SkillRoute } from '../types.js';
+
+const SIGNAL_STRENGTHS = ['strong_buy', 'buy', 'neutral', 'sell', 'strong_sell'];
+
+const durationDays = (body: any): number => Number(body?.durationDays) || 7;
+
+function conditionErrors(condition: any, field: string): FieldError[] {
+  const error = (message: string): FieldError[] => [{ field, location: 'body', message }];
+  if (typeof condition !== 'object' || condition === null) {
+    return error('must be an object with a type and a value');
+  }
+  if (!CONDITION_TYPES.includes(condition.type)) {
+    return error(`type must be one of: ${CONDITION_TYPES.join(', ')}`);
+  }
+  if (condition.type === 'signal') {
+    return SIGNAL_STRENGTHS.includes(condition.value) ? [] : error(`value must be one of: ${SIGNAL_STRENGTHS.join(', ')}`);
+  }
+  if (typeof condition.value !== 'number' || !Number.isFinite(condition.value) || condition.value <= 0) {
+    return error('value must be a positive number');
+  }
+  if (condition.type.startsWith('rsi_') && condition.value >= 100) {
+    return error('value must be an RSI level below 100');
+  }
+  return [];
+}
+
+// Webhooks are called from the server, so they must be public HTTPS endpoints.
+// Private and loopback IP literals are refused here, before payment; hostnames
+// are resolved and checked by the handler and again on every delivery.
+function webhookUrlErrors(value: string): FieldError[] {
+  const error = (message: string): FieldError[] => [{ field: 'webhookUrl', location: 'body', message }];
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return error('must be a URL');
+  }
+  if (url.protocol !== 'https:') {
+    return error('must use https');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return error('must be a public host');
+  }
+  return [];
+}
+
+// The condition fields returned by the create and status endpoints
+function describeAlert(alert: Alert) {
+  return {
+    symbol: alert.symbol,
+    interval: alert.interval,
+    conditions: alert.conditions,
+    webhookUrl: alert.webhookUrl,
+    createdAt: alert.createdAt,
+    expiresAt: alert.expiresAt,
+  };
+}
+
+// Price and Signal Alerts
+export const alertsRoute: SkillRoute = {
+  method: 'POST',
+  path: '/api/alerts',
+  // Priced per day the alert is watched
+  price: (context) => scalePrice(config.pricing.alertDay, durationDays(context.adapter.getBody?.())),
+  listedPrice: config.pricing.alertDay,
+  priceUnit: 'day',
+  complexity: (context) => {
+    const conditions = (context.adapter.getBody?.() as any)?.conditions;
+    return Array.isArray(conditions) ? conditions.length : 1;
+  },
+  summary: 'Price and signal alerts',
+  description: `Watch a token for price thresholds, 24h moves, overall signal changes or RSI crossings, checked every ${config.alerts.checkIntervalSeconds} seconds. Triggers are POSTed to your webhook, signed with HMAC-SHA256 and retried on failure. Priced per day.`,
+  input: {
+    symbol: 'ETH',
+    conditions: [
+      { type: 'price_above', value: 4000 },
+      { type: 'signal', value: 'strong_sell' },
+      { type: 'rsi_below', value: 30 },
+    ],
+    webhookUrl: 'https://example.com/hooks/eth',
+    interval: 'hourly',
+    durationDays: 7,
+  },
+  inputSchema: {
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Token symbol to watch (e.g., BTC, ETH, SOL) or CoinGecko id',
+        maxLength: 64,
+      },
+      conditions: {
+        type: 'array',
+        description: `Conditions that trigger the alert, as { type, value }. Types: price_above, price_below (USD price), change_24h (absolute 24h change in percent), signal (overallSignal, e.g. "strong_sell"), rsi_above, rsi_below (RSI level, e.g. 70 or 30)`,
+        minItems: 1,
+        maxItems: config.alerts.maxConditions,
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: [...CONDITION_TYPES] },
+            value: { oneOf: [{ type: 'number' }, { type: 'string', enum: SIGNAL_STRENGTHS }] },
+          },
+          required: ['type', 'value'],
+        },
+      },
+      webhookUrl: {
+        type: 'string',
+        description: 'Public HTTPS URL that triggers are POSTed to',
+        maxLength: 2048,
+      },
+      interval: {
+        type: 'string',
+        description: 'Candle interval for signal and RSI conditions (defaults to daily)',
+        enum: Object.keys(SIGNAL_INTERVALS),
+        default: 'daily',
+      },
+      durationDays: {
+        type: 'integer',
+        description: 'Days to watch the token (the price is per day)',
+        minimum: 1,
+        maximum: config.alerts.maxDurationDays,
+        default: 7,
+      },
+    },
+    required: ['symbol', 'conditions', 'webhookUrl'],
+  },
+  validate: (req) => [
+    ...(req.body.conditions as unknown[]).flatMap((condition, i) => conditionErrors(condition, `conditions[${i}]`)),
+    ...webhookUrlErrors(req.body.webhookUrl),
+  ],
+  output: {
+    example: {
+      success: true,
+      data: {
+        token: 'Vd7xQp2LkR9sT4mW1nB6cY3hJ8fG5aZ0',
+        secret: '3f9a1c6e0b7d4a2f8e5c1b9d7a3f6e0c4b8d2a7f1e9c5b3d6a0f8e2c4b7d1a9',
+        symbol: 'ETH',
+        interval: 'hourly',
+        conditions: [
+          { type: 'price_above', value: 4000 },
+          { type: 'signal', value: 'strong_sell' },
+          { type: 'rsi_below', value: 30 },
+        ],
+        webhookUrl: 'https://example.com/hooks/eth',
+        createdAt: '2024-01-15T12:30:00.000Z',
+        expiresAt: '2024-01-22T12:30:00.000Z',
+      },
+    },
+  },
+  handler: async (req, res) => {
+    try {
+      const { symbol, conditions, webhookUrl, interval = 'daily' } = req.body;
+      
+      // Only charge for symbols we can actually price and webhooks we can call
+      await getTokenPrice({ symbol });
+      await resolveWebhookHost(new URL(webhookUrl).hostname);
+      
+      const alert = createAlert({
+        symbol,
+        interval: interval as SignalInterval,
+        conditions: (conditions as AlertCondition[]).map(({ type, value }) => ({ type, value })),
+        webhookUrl,
+        durationDays: durationDays(req.body),
+      });
+      
+      // The token is only handed over once the payment settles
+      res.on('finish', () => {
+        if (res.statusCode >= 400) {
+          deleteAlert(alert.id);
+        }
+      });
+      
+      const data = { token: alert.id, secret: alert.secret, ...describeAlert(alert) };
+      res.status(201).json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse<typeof data>);
+      
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+};
+
+// Alert tokens are sent as `Authorization: Bearer <token>`
+function requireAlert(req: Request): Alert {
+  const token = bearerToken(req);
+  if (!token) {
+    throw new UnauthorizedError('Send your alert token as Authorization: Bearer <token>');
+  }
+  return findAlert(token);
+}
+
+// Alert Status and Delivery History (free with an alert token)
+export const alertHistoryHandler: RequestHandler = (req, res) => {
+  try {
+    const alert = requireAlert(req);
+    const data = {
+      ...describeAlert(alert),
+      lastCheckedAt: alert.lastCheckedAt,
+      lastError: alert.lastError,
+      history: alert.history,
+    };
+    
+    res.json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString(),
+    } as ApiResponse<typeof data>);
+    
+  } catch (error) {
+    sendError(res, error);
+  }
+};
+
+// Cancel an Alert (free with an alert token; unused days are not refunded)
+export const cancelAlertHandler: RequestHandler = (req, res) => {
+  try {
+    const alert = requireAlert(req);
+    deleteAlert(alert.id);
+    
+    res.json({
+      success: true,
+      data: { cancelled: true },
+      timestamp: new Date().toISOString(),
+    } as ApiResponse<{ cancelled: boolean }>);
+    
+  } catch (error) {
+    sendError(res, error);
+  }
+};
@@ -0,0 +1,116 @@
+import { config } from '../config.js';
+import { sendError } from '../errors.js';
+import { backtestSymbol } from '../services/backtest.service.js';
+import { withCacheInfo } from '../services/cache.service.js';
+import { INDICATOR_NAMES, MIN_LOOKBACK, SIGNAL_INTERVALS, type SignalInterval } from '../services/signals.service.js';
+import { indicatorErrors, lookbackErrors, parseIndicatorList } from './signals.route.js';
+import type { ApiResponse, SkillRoute } from '../types.js';
+
+// Signal Backtesting
+export const backtestRoute: SkillRoute = {
+  method: 'GET',
+  path: '/api/backtest/:symbol',
+  price: config.pricing.backtest,
+  summary: 'Signal backtesting',
+  description: 'Replay the trading-signal scoring over historical candles: hit rate, average forward return per signal class, max drawdown and a long/flat equity curve.',
+  input: { symbol: 'ETH', interval: 'daily', window: 60, horizon: 1 },
+  inputSchema: {
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Token symbol to backtest (e.g., BTC, ETH, SOL) or CoinGecko id',
+        maxLength: 64,
+      },
+      interval: {
+        type: 'string',
+        description: 'Candle interval (defaults to daily)',
+        enum: Object.keys(SIGNAL_INTERVALS),
+        default: 'daily',
+      },
+      window: {
+        type: 'integer',
+        description: 'Candles fed to the indicators at each step',
+        minimum: MIN_LOOKBACK,
+        default: 60,
+      },
+      horizon: {
+        type: 'integer',
+        description: 'Candles ahead used to score each signal',
+        minimum: 1,
+        maximum: 30,
+        default: 1,
+      },
+      indicators: {
+        type: 'string',
+        description: 'Comma-separated indicators to compute (defaults to all)',
+      },
+    },
+    required: ['symbol'],
+  },
+  validate: (req) => {
+    const interval = (req.query.interval || 'daily') as SignalInterval;
+    // The indicator window plus at least as many candles again to replay over
+    const maxWindow = Math.floor(SIGNAL_INTERVALS[interval].maxLookback / 2);
+    return [
+      ...lookbackErrors('window', req.query.window, interval, maxWindow),
+      ...indicatorErrors(req.query.indicators),
+    ];
+  },
+  // One unit per indicator replayed (all of them by default)
+  complexity: (context) =>
+    parseIndicatorList(context.adapter.getQueryParam?.('indicators')).requested.length || INDICATOR_NAMES.length,
+  output: {
+    example: {
+      success: true,
+      data: {
+        symbol: 'ETH',
+        interval: 'daily',
+        window: 60,
+        horizon: 1,
+        candles: 364,
+        signalsEvaluated: 303,
+        hitRate: 54.2,
+        byClass: {
+          strong_buy: { count: 12, avgForwardReturn: 0.81, hitRate: 58.3 },
+          buy: { count: 61, avgForwardReturn: 0.42, hitRate: 55.7 },
+          neutral: { count: 170, avgForwardReturn: 0.05, hitRate: 0 },
+          sell: { count: 48, avgForwardReturn: -0.31, hitRate: 52.1 },
+          strong_sell: { count: 12, avgForwardReturn: -0.66, hitRate: 50 },
+        },
+        strategy: {
+          description: 'Long for the next candle on buy/strong_buy, flat otherwise',
+          totalReturn: 18.3,
+          buyAndHoldReturn: 12.1,
+          maxDrawdown: 14.6,
+          timeInMarket: 24.1,
+          equityCurve: [{ timestamp: 1705276800000, equity: 1 }],
+        },
+        generatedAt: '2024-01-15T12:30:00.000Z',
+      },
+    },
+  },
+  handler: async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const { interval = 'daily', window, horizon, indicators } = req.query;
+      
+      // Parameters were validated before payment (see inputSchema and validate)
+      const { result: backtest, cache } = await withCacheInfo(() => backtestSymbol(symbol, {
+        interval: interval as SignalInterval,
+        window: window === undefined ? undefined : Number(window),
+        horizon: horizon === undefined ? undefined : Number(horizon),
+        indicators: parseIndicatorList(indicators).requested,
+      }));
+      
+      res.json({
+        success: true,
+        data: backtest,
+        cache,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse<typeof backtest>);
+      
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+};
@@ -0,0 +1,102 @@
+import type { Request, RequestHandler } from 'express';
+import { config, scalePrice } from '../config.js';
+import { UnauthorizedError, sendError } from '../errors.js';
+import { createSession, deleteSession, findSession, summarizeSession } from '../services/credits.service.js';
+import { decodePayment } from '../services/ledger.service.js';
+import type { ApiResponse, SkillRoute } from '../types.js';
+
+// Session tokens are sent as `Authorization: Bearer <token>`
+export function bearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.header('authorization') || '');
+  return match?.[1];
+}
+
+// Credit amounts are charged as-is, rounded to USDC's 6 decimals
+const creditAmount = (body: any): `$${string}` =>
+  scalePrice(`$${Number(body?.amount) || config.credits.minPurchaseUsd}`, 1);
+
+// Buy Prepaid Credits
+export const creditsRoute: SkillRoute = {
+  method: 'POST',
+  path: '/api/credits',
+  price: (context) => creditAmount(context.adapter.getBody?.()),
+  listedPrice: '$1',
+  priceUnit: 'USD',
+  creditPurchase: true,
+  summary: 'Prepaid credits',
+  description: 'Buy prepaid credit with a single x402 payment and get a session token. Calls made with the token (Authorization: Bearer) are drawn from the balance instead of needing their own payment.',
+  input: { amount: 5 },
+  inputSchema: {
+    properties: {
+      amount: {
+        type: 'number',
+        description: `Credit to buy in USD (${config.credits.minPurchaseUsd}-${config.credits.maxPurchaseUsd}). You are charged exactly this amount.`,
+        minimum: config.credits.minPurchaseUsd,
+        maximum: config.credits.maxPurchaseUsd,
+      },
+    },
+    required: ['amount'],
+  },
+  output: {
+    example: {
+      success: true,
+      data: {
+        token: 'Jx3f0yq1cS5oZ8tqkQ2bYw.6bH0r8qkG3fP1m2Xv9tLZcM8m0fJr2Yw1n0sQ4aP3eE',
+        balance: '$5',
+        expiresAt: '2024-02-14T12:30:00.000Z',
+      },
+    },
+    schema: {
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'object',
+          properties: {
+            token: { type: 'string' },
+            balance: { type: 'string' },
+            expiresAt: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  handler: (req, res) => {
+    const paymentHeader = req.header('payment-signature') || req.header('x-payment');
+    const payer = paymentHeader ? decodePayment(paymentHeader)?.payer : undefined;
+    const { token, session } = createSession(creditAmount(req.body), payer);
+    
+    // The token is only handed over once the payment settles
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        deleteSession(session.id);
+      }
+    });
+    
+    const summary = summarizeSession(session);
+    res.status(201).json({
+      success: true,
+      data: { token, balance: summary.balance, expiresAt: summary.expiresAt },
+      timestamp: new Date().toISOString(),
+    } as ApiResponse<{ token: string; balance: string; expiresAt: string }>);
+  },
+};
+
+// Credit Balance (free)
+export const creditsBalanceHandler: RequestHandler = (req, res) => {
+  try {
+    const token = bearerToken(req);
+    if (!token) {
+      return sendError(res, new UnauthorizedError('Send your session token as Authorization: Bearer <token>'));
+    }
+    const summary = summarizeSession(findSession(token));
+    
+    res.json({
+      success: true,
+      data: summary,
+      timestamp: new Date().toISOString(),
+    } as ApiResponse<typeof summary>);
+    
+  } catch (error) {
+    sendError(res, error);
+  }
+};
@@ -0,0 +1,187 @@
+import { config } from '../config.js';
+import { sendError } from '../errors.js';
+import { withCacheInfo } from '../services/cache.service.js';
+import { candlesToCsv, earliestDexHistory, earliestSymbolHistory, getPriceHistory } from '../services/history.service.js';
+import { CHAINS } from '../services/price.service.js';
+import { DEFAULT_LOOKBACK, SIGNAL_INTERVALS, type SignalInterval } from '../services/signals.service.js';
+import type { ApiResponse, FieldError, SkillRoute } from '../types.js';
+import { contractAddressErrors } from '../validation.js';
+
+// `from`/`to` accept an ISO 8601 date or time, or Unix seconds
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value);
+  const time = /^\d+$/.test(text) ? Number(text) * 1000 : Date.parse(text);
+  return Number.isFinite(time) ? time : NaN;
+}
+
+// Defaults: up to now, starting DEFAULT_LOOKBACK candles earlier
+function timeRange(query: Record<string, unknown>, interval: SignalInterval): { from: number; to: number } {
+  const to = parseTime(query.to) ?? Date.now();
+  const from = parseTime(query.from) ?? to - DEFAULT_LOOKBACK * SIGNAL_INTERVALS[interval].hoursPerCandle * 60 * 60 * 1000;
+  return { from, to };
+}
+
+// A month back from startup, so the published example stays within the
+// symbol history window
+const exampleFrom = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// Historical Prices
+export const historyRoute: SkillRoute = {
+  method: 'GET',
+  path: '/api/history/:symbol',
+  price: config.pricing.history,
+  summary: 'Historical OHLCV',
+  description: 'Get normalized OHLCV candles for a token over a time range, as JSON or CSV. Symbols use CoinGecko history; contract addresses (with chain) use candles from their most liquid DEX pair.',
+  input: { symbol: 'ETH', interval: 'daily', from: exampleFrom, format: 'json' },
+  inputSchema: {
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Token symbol (e.g., BTC, ETH) or CoinGecko id, or a contract address together with chain (with chain, must be a contract address)',
+        maxLength: 64,
+      },
+      chain: {
+        type: 'string',
+        description: 'Blockchain of a contract address',
+        enum: CHAINS,
+      },
+      interval: {
+        type: 'string',
+        description: 'Candle interval (defaults to daily)',
+        enum: Object.keys(SIGNAL_INTERVALS),
+        default: 'daily',
+      },
+      from: {
+        type: 'string',
+        description: `Start of the range: ISO 8601 date/time or Unix seconds (defaults to ${DEFAULT_LOOKBACK} candles before to). Symbols reach back 500 hourly candles (about 21 days), 500 4h candles (about 83 days), 364 days or 52 weeks; contract addresses up to 999 candles (daily for weekly) before to`,
+      },
+      to: {
+        type: 'string',
+        description: 'End of the range: ISO 8601 date/time or Unix seconds (defaults to now)',
+      },
+      format: {
+        type: 'string',
+        description: 'Response format (defaults to json)',
+        enum: ['json', 'csv'],
+        default: 'json',
+      },
+    },
+    required: ['symbol'],
+  },
+  validate: (req) => {
+    const interval = (req.query.interval || 'daily') as SignalInterval;
+    // With chain, the path holds a contract address rather than a ticker
+    const errors: FieldError[] = req.query.chain ? contractAddressErrors('symbol', 'path', req.params.symbol, req.query.chain) : [];
+    for (const field of ['from', 'to']) {
+      if (Number.isNaN(parseTime(req.query[field]))) {
+        errors.push({ field, location: 'query', message: 'must be an ISO 8601 date/time or Unix seconds' });
+      }
+    }
+    if (errors.length > 0) return errors;
+    
+    const { from, to } = timeRange(req.query, interval);
+    if (from >= to) {
+      errors.push({ field: 'from', location: 'query', message: 'must be before to' });
+    }
+    if (to > Date.now() + 60 * 1000) {
+      errors.push({ field: 'to', location: 'query', message: 'must not be in the future' });
+    }
+    // CoinGecko only goes back as far as the signal lookback window; DEX
+    // pools as far as they exist, but one request serves a bounded range
+    const earliest = req.query.chain ? earliestDexHistory(interval, to) : earliestSymbolHistory(interval);
+    if (from < earliest) {
+      errors.push({ field: 'from', location: 'query', message: `must be after ${new Date(earliest).toISOString()} for ${interval} candles` });
+    }
+    return errors;
+  },
+  output: {
+    example: {
+      success: true,
+      data: {
+        symbol: 'ETH',
+        interval: 'daily',
+        from: '2024-01-01T00:00:00.000Z',
+        to: '2024-02-01T00:00:00.000Z',
+        source: 'coingecko',
+        volumeType: 'rolling_24h',
+        candles: [
+          { timestamp: 1704153600000, open: 2281.47, high: 2352.12, low: 2276.90, close: 2352.12, volume: 7618293745 },
+          { timestamp: 1704240000000, open: 2352.12, high: 2386.21, low: 2201.86, close: 2210.43, volume: 13457182039 },
+        ],
+      },
+    },
+    schema: {
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'object',
+          properties: {
+            symbol: { type: 'string' },
+            contractAddress: { type: 'string' },
+            chain: { type: 'string' },
+            pair: {
+              type: 'object',
+              properties: {
+                address: { type: 'string' },
+                dexId: { type: 'string' },
+                baseSymbol: { type: 'string' },
+                quoteSymbol: { type: 'string' },
+                liquidityUsd: { type: 'number' },
+              },
+            },
+            interval: { type: 'string', enum: Object.keys(SIGNAL_INTERVALS) },
+            from: { type: 'string' },
+            to: { type: 'string' },
+            source: { type: 'string', enum: ['coingecko', 'geckoterminal'] },
+            volumeType: { type: 'string', enum: ['rolling_24h', 'candle'] },
+            candles: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  timestamp: { type: 'integer' },
+                  open: { type: 'number' },
+                  high: { type: 'number' },
+                  low: { type: 'number' },
+                  close: { type: 'number' },
+                  volume: { type: 'number' },
+                  rangeEstimated: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  handler: async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const { chain, format = 'json' } = req.query;
+      const interval = (req.query.interval || 'daily') as SignalInterval;
+      
+      // Parameters were validated before payment (see inputSchema and validate)
+      const { result: history, cache } = await withCacheInfo(() => getPriceHistory({
+        ...(chain ? { contractAddress: symbol, chain: String(chain) } : { symbol }),
+        interval,
+        ...timeRange(req.query, interval),
+      }));
+      
+      if (format === 'csv') {
+        res.type('text/csv').send(candlesToCsv(history.candles));
+        return;
+      }
+      
+      res.json({
+        success: true,
+        data: history,
+        cache,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse<typeof history>);
+      
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+};
@@ -0,0 +1,183 @@
+import type { Express, RequestHandler } from 'express';
+import type { RoutesConfig } from '@x402/core/server';
+import { ExpressAdapter } from '@x402/express';
+import { declareDiscoveryExtension } from '@x402/extensions/bazaar';
+import { buildAccepts } from '../payments.js';
+import { ValidationError, sendError } from '../errors.js';
+import { debit, findSession, refund } from '../services/credits.service.js';
+import { creditRequestEntry, recordEntry } from '../services/ledger.service.js';
+import { quotePrice } from '../services/pricing.service.js';
+import { validateRequest } from '../validation.js';
+import type { SkillRoute } from '../types.js';
+import { batchPricesRoute, priceRoute } from './price.route.js';
+import { portfolioRiskRoute, portfolioRoute } from './portfolio.route.js';
+import { signalsRoute } from './signals.route.js';
+import { backtestRoute } from './backtest.route.js';
+import { historyRoute } from './history.route.js';
+import { tokenRiskRoute } from './screening.route.js';
+import { bearerToken, creditsRoute } from './credits.route.js';
+import { streamRoute } from './stream.route.js';
+import { alertsRoute } from './alerts.route.js';
+
+// Every paid skill. Adding a route here is all it takes to register its
+// handler, charge for it, list it on `/` and publish it to the Bazaar.
+export const skillRoutes: SkillRoute[] = [
+  priceRoute,
+  batchPricesRoute,
+  portfolioRoute,
+  portfolioRiskRoute,
+  signalsRoute,
+  backtestRoute,
+  historyRoute,
+  tokenRiskRoute,
+  streamRoute,
+  alertsRoute,
+  creditsRoute,
+];
+
+// Service metadata for the Bazaar
+export const serviceMetadata = {
+  name: 'UPSKILL Market Analysis',
+  description: 'AI-powered cryptocurrency market analysis skills - token prices, portfolio analysis, and trading signals.',
+  version: '1.0.0',
+  provider: 'UPSKILL Ecosystem',
+  contact: 'https://github.com/upskill',
+  categories: ['crypto', 'market-data', 'trading', 'defi'],
+  tags: ['price', 'portfolio', 'signals', 'technical-analysis', 'ai-agents'],
+};
+
+// x402 route patterns use `[param]` segments rather than Express's `:param`
+function paymentPattern(route: SkillRoute): string {
+  return `${route.method} ${route.path.replace(/:(\w+)/g, '[$1]')}`;
+}
+
+/**
+ * Build the x402 middleware config, including each route's Bazaar discovery
+ * extension, from the registry. Every route accepts each configured payment
+ * method, and prices are quoted per request so pricing rules (volume tiers,
+ * partners, complexity) show up in the 402 `accepts`.
+ */
+export function buildPaymentRoutes(routes: SkillRoute[]): RoutesConfig {
+  return Object.fromEntries(routes.map(route => [paymentPattern(route), {
+    accepts: buildAccepts((context) => quotePrice(route, context).price),
+    description: route.description,
+    mimeType: 'application/json',
+    extensions: {
+      ...declareDiscoveryExtension(route.method === 'POST'
+        ? { bodyType: 'json', input: route.input, inputSchema: route.inputSchema, output: route.output }
+        : { input: route.input, inputSchema: route.inputSchema, output: route.output }),
+    },
+  }]));
+}
+
+// Price as shown to humans: dynamic prices list their unit price
+export function listedPrice(route: SkillRoute): string {
+  return route.listedPrice || (typeof route.price === 'string' ? route.price : 'dynamic');
+}
+
+export function listEndpoints(routes: SkillRoute[]) {
+  return routes.map(route => ({
+    path: route.path,
+    method: route.method,
+    price: route.priceUnit ? `${listedPrice(route)} per ${route.priceUnit}` : listedPrice(route),
+    description: route.summary,
+  }));
+}
+
+/**
+ * Validate each paid route's parameters against its inputSchema. Mounted
+ * before the payment middleware, so malformed requests get a 400 listing
+ * every offending field instead of a payment prompt. Also records the matched
+ * route in `res.locals.skillRoute` for the usage ledger.
+ */
+export function registerValidation(app: Express, routes: SkillRoute[]): void {
+  for (const route of routes) {
+    const validate: RequestHandler = (req, res, next) => {
+      res.locals.skillRoute = route;
+      const errors = validateRequest(route, req);
+      if (errors.length > 0) {
+        return sendError(res, new ValidationError(
+          `Invalid request parameters: ${errors.map(e => e.field).join(', ')}`,
+          errors
+        ));
+      }
+      next();
+    };
+    if (route.method === 'POST') {
+      app.post(route.path, validate);
+    } else {
+      app.get(route.path, validate);
+    }
+  }
+}
+
+/**
+ * Let requests carrying a session token pay from its prepaid credits instead
+ * of with an x402 payment. Mounted before the payment middleware, which skips
+ * requests marked `res.locals.paidWithCredits`. The quoted price is debited up
+ * front and refunded if the endpoint fails, like a voided x402 payment. Each
+ * call is written to the usage ledger so it counts toward volume tiers. An
+ * x402 payment header takes precedence over a session token.
+ */
+export function registerCredits(app: Express, routes: SkillRoute[]): void {
+  for (const route of routes.filter(r => !r.creditPurchase)) {
+    const drawCredits: RequestHandler = (req, res, next) => {
+      const token = bearerToken(req);
+      if (!token || req.header('payment-signature') || req.header('x-payment')) {
+        return next();
+      }
+      try {
+        const startedAt = Date.now();
+        const session = findSession(token);
+        const context = { adapter: new ExpressAdapter(req), path: req.path, method: req.method };
+        const { price } = quotePrice(route, context, session.payer);
+        const routeKey = `${route.method} ${route.path}`;
+        
+        debit(session, routeKey, price);
+        
+        // 'close' follows 'finish' on every response, but on its own means the
+        // client went away before getting an answer; that call is refunded too
+        let settled = false;
+        const settle = () => {
+          if (settled) return;
+          settled = true;
+          const aborted = !res.writableFinished;
+          const status = aborted ? 499 : res.statusCode;
+          if (status >= 400) {
+            refund(session, routeKey, price);
+          }
+          recordEntry(creditRequestEntry({
+            route: routeKey,
+            payer: session.payer,
+            price,
+            status,
+            latencyMs: Date.now() - startedAt,
+            error: aborted ? 'CLIENT_CLOSED_REQUEST' : res.locals.error?.code,
+          }));
+        };
+        res.on('finish', settle);
+        res.on('close', settle);
+        res.locals.paidWithCredits = true;
+        res.setHeader('X-Credits-Charged', price);
+        next();
+      } catch (error) {
+        sendError(res, error);
+      }
+    };
+    if (route.method === 'POST') {
+      app.post(route.path, drawCredits);
+    } else {
+      app.get(route.path, drawCredits);
+    }
+  }
+}
+
+export function registerRoutes(app: Express, routes: SkillRoute[]): void {
+  for (const route of routes) {
+    if (route.method === 'POST') {
+      app.post(route.path, route.handler);
+    } else {
+      app.get(route.path, route.handler);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import type { RequestHandler } from 'express';
+import type { HTTPRequestContext } from '@x402/core/server';
+import { config } from '../config.js';
+import { sendError } from '../errors.js';
+import { withCacheInfo } from '../services/cache.service.js';
+import { VS_CURRENCIES, type VsCurrency } from '../services/currency.service.js';
+import { analyzePortfolio, parseChainList, PORTFOLIO_CHAINS } from '../services/portfolio.service.js';
+import type { ApiResponse, InputSchema, SkillRoute } from '../types.js';
+
+const portfolioInputSchema: InputSchema = {
+  properties: {
+    address: {
+      type: 'string',
+      description: 'Wallet address to analyze (URL path parameter)',
+      pattern: '^0x[a-fA-F0-9]{40}$',
+    },
+    chain: {
+      type: 'string',
+      description: `Blockchain to analyze (${PORTFOLIO_CHAINS.join(', ')}), a comma-separated list, or "all". Defaults to base.`,
+      pattern: `^(all|(${PORTFOLIO_CHAINS.join('|')})(,(${PORTFOLIO_CHAINS.join('|')}))*)$`,
+      default: 'base',
+    },
+    vsCurrency: {
+      type: 'string',
+      description: 'Currency for price and value fields alongside the USD ones (defaults to usd)',
+      enum: [...VS_CURRENCIES],
+      default: 'usd',
+    },
+  },
+  required: ['address'],
+};
+
+// One unit per chain scanned
+const portfolioComplexity = (context: HTTPRequestContext): number =>
+  parseChainList(String(context.adapter.getQueryParam?.('chain') || 'base')).chains.length;
+
+// Risk metrics are a separate, higher-priced route over the same analysis
+const handlePortfolio = (includeRisk: boolean): RequestHandler => async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { chain = 'base', vsCurrency = 'usd' } = req.query;
+    
+    // Address and chain validation happens in analyzePortfolio
+    const { result: portfolio, cache } = await withCacheInfo(() =>
+      analyzePortfolio(address, String(chain), { includeRisk, vsCurrency: vsCurrency as VsCurrency }));
+      
+    res.json({
+      success: true,
+      data: portfolio,
+      cache,
+      timestamp: new Date().toISOString(),
+    } as ApiResponse<typeof portfolio>);
+    
+  } catch (error) {
+    sendError(res, error);
+  }
+};
+
+// Wallet Portfolio Analysis
+export const portfolioRoute: SkillRoute = {
+  method: 'GET',
+  path: '/api/portfolio/:address',
+  price: config.pricing.portfolioAnalysis,
+  summary: 'Wallet portfolio analysis',
+  description: 'Analyze a wallet\'s token holdings across one or more chains: portfolio value, diversification score, and per-chain allocation breakdown.',
+  input: { address: '0x...', chain: 'base,ethereum', vsCurrency: 'eur' },
+  inputSchema: portfolioInputSchema,
+  complexity: portfolioComplexity,
+  output: {
+    example: {
+      success: true,
+      data: {
+        walletAddress: '0x1234...5678',
+        chain: 'base,ethereum',
+        chains: [
+          { chain: 'base', totalValueUsd: 9000.25, totalValue: 8280.23, tokenCount: 6, percentage: 72, nativeTokenPercentage: 55.1, stablecoinPercentage: 20.3 },
+          { chain: 'ethereum', totalValueUsd: 3500.25, totalValue: 3220.23, tokenCount: 2, percentage: 28, nativeTokenPercentage: 19.6, stablecoinPercentage: 21 },
+        ],
+        vsCurrency: 'eur',
+        totalValueUsd: 12500.50,
+        totalValue: 11500.46,
+        tokenCount: 8,
+        diversificationScore: 65,
+        nativeTokenPercentage: 45.2,
+        stablecoinPercentage: 20.5,
+        topHolding: {
+          chain: 'base',
+          symbol: 'ETH',
+          valueUsd: 5650.25,
+          value: 5198.23,
+          percentage: 45.2,
+        },
+        holdings: [],
+        analysisTimestamp: '2024-01-15T12:30:00.000Z',
+      },
+    },
+  },
+  handler: handlePortfolio(false),
+};
+
+// Portfolio Risk Metrics
+export const portfolioRiskRoute: SkillRoute = {
+  method: 'GET',
+  path: '/api/portfolio/:address/risk',
+  price: config.pricing.portfolioRisk,
+  summary: 'Portfolio analysis with risk metrics',
+  description: 'Portfolio analysis plus risk metrics from 90 days of daily returns: annualized volatility, beta vs ETH and BTC, 1-day 95% VaR, max drawdown and a correlation matrix of the largest holdings.',
+  input: { address: '0x...', chain: 'all' },
+  inputSchema: portfolioInputSchema,
+  complexity: portfolioComplexity,
+  output: {
+    example: {
+      success: true,
+      data: {
+        walletAddress: '0x1234...5678',
+        chain: 'all',
+        vsCurrency: 'usd',
+        totalValueUsd: 12500.50,
+        totalValue: 12500.50,
+        tokenCount: 8,
+        diversificationScore: 65,
+        risk: {
+          lookbackDays: 89,
+          coveredValuePercentage: 97.4,
+          annualizedVolatility: 62.4,
+          beta: { eth: 1.12, btc: 1.35 },
+          valueAtRisk95: { percentage: 5.8, valueUsd: 725.03, value: 725.03 },
+          maxDrawdown: 31.2,
+          correlationMatrix: {
+            symbols: ['ETH', 'USDC', 'AERO'],
+            matrix: [[1, 0, 0.71], [0, 1, 0], [0.71, 0, 1]],
+          },
+          excluded: [],
+        },
+        analysisTimestamp: '2024-01-15T12:30:00.000Z',
+      },
+    },
+  },
+  handler: handlePortfolio(true),
+};
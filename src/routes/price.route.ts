@@ -0,0 +1,254 @@
+import { config, scalePrice } from '../config.js';
+import { ValidationError, sendError } from '../errors.js';
+import { withCacheInfo } from '../services/cache.service.js';
+import { VS_CURRENCIES, type VsCurrency } from '../services/currency.service.js';
+import { getTokenPrice, getTokenPrices, parseBatchPriceRequest } from '../services/price.service.js';
+import { contractAddressErrors, pairAddressErrors, tokenRequestErrors } from '../validation.js';
+import type { ApiResponse, SkillRoute } from '../types.js';
+
+// Token Price Checker
+export const priceRoute: SkillRoute = {
+  method: 'GET',
+  path: '/api/price',
+  price: config.pricing.tokenPrice,
+  summary: 'Token price data',
+  description: 'Get current price and market data for any cryptocurrency token. Supports symbols (BTC, ETH) or contract addresses, priced as a liquidity-weighted average across DEX pairs (or one pinned pair) with liquidity, short-term changes and transaction counts.',
+  input: { symbol: 'ETH', chain: 'base' },
+  inputSchema: {
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Token symbol (e.g., BTC, ETH, SOL) or CoinGecko id. Use this OR contractAddress. With chain, an ambiguous symbol resolves to the token on that chain.',
+      },
+      contractAddress: {
+        type: 'string',
+        description: 'Token contract address. Requires chain parameter.',
+      },
+      chain: {
+        type: 'string',
+        description: 'Blockchain (ethereum, base, arbitrum, polygon, solana). Required with contractAddress.',
+        enum: ['ethereum', 'base', 'arbitrum', 'polygon', 'optimism', 'avalanche', 'bsc', 'solana'],
+      },
+      pairAddress: {
+        type: 'string',
+        description: 'Price from this DEX pair only, instead of the liquidity-weighted average across pairs. Requires contractAddress and chain.',
+      },
+      vsCurrency: {
+        type: 'string',
+        description: 'Currency prices and amounts are quoted in (defaults to usd)',
+        enum: [...VS_CURRENCIES],
+        default: 'usd',
+      },
+    },
+  },
+  validate: (req) => {
+    const { symbol, contractAddress, chain, pairAddress } = req.query;
+    if (!symbol && !contractAddress) {
+      return [{ field: 'symbol', location: 'query', message: 'either symbol or contractAddress must be provided' }];
+    }
+    if (contractAddress && !chain && !symbol) {
+      return [{ field: 'chain', location: 'query', message: 'is required with contractAddress' }];
+    }
+    if (pairAddress && !(contractAddress && chain)) {
+      return [{ field: 'pairAddress', location: 'query', message: 'requires contractAddress and chain' }];
+    }
+    return [
+      ...(contractAddress && chain ? contractAddressErrors('contractAddress', 'query', contractAddress, chain) : []),
+      ...(pairAddress ? pairAddressErrors('pairAddress', 'query', pairAddress, chain) : []),
+    ];
+  },
+  output: {
+    example: {
+      success: true,
+      data: {
+        symbol: 'ETH',
+        name: 'Ethereum',
+        price: 3245.67,
+        priceChange24h: 45.23,
+        priceChangePercentage24h: 1.41,
+        marketCap: 389000000000,
+        volume24h: 12500000000,
+        high24h: 3280.00,
+        low24h: 3190.50,
+        ath: 4878.26,
+        athChangePercentage: -33.47,
+        lastUpdated: '2024-01-15T12:30:00.000Z',
+        source: 'coingecko',
+        vsCurrency: 'usd',
+      },
+    },
+    schema: {
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'object',
+          properties: {
+            symbol: { type: 'string' },
+            name: { type: 'string' },
+            price: { type: 'number' },
+            priceChange24h: { type: 'number' },
+            priceChangePercentage24h: { type: 'number' },
+            marketCap: { type: 'number' },
+            volume24h: { type: 'number' },
+            high24h: { type: 'number' },
+            low24h: { type: 'number' },
+            ath: { type: 'number' },
+            athChangePercentage: { type: 'number' },
+            lastUpdated: { type: 'string' },
+            source: { type: 'string' },
+            vsCurrency: { type: 'string', enum: [...VS_CURRENCIES] },
+            liquidityUsd: { type: 'number' },
+            fdv: { type: 'number' },
+            priceChangePercentage5m: { type: 'number' },
+            priceChangePercentage1h: { type: 'number' },
+            priceChangePercentage6h: { type: 'number' },
+            txns24h: {
+              type: 'object',
+              properties: {
+                buys: { type: 'integer' },
+                sells: { type: 'integer' },
+              },
+            },
+            dexId: { type: 'string' },
+            pairAddress: { type: 'string' },
+            pairCount: { type: 'integer' },
+          },
+        },
+      },
+    },
+  },
+  handler: async (req, res) => {
+    try {
+      const { symbol, contractAddress, chain, pairAddress, vsCurrency = 'usd' } = req.query;
+      
+      const { result: priceData, cache } = await withCacheInfo(() => getTokenPrice({
+        symbol: symbol as string | undefined,
+        contractAddress: contractAddress as string | undefined,
+        chain: chain as string | undefined,
+        pairAddress: pairAddress as string | undefined,
+      }, vsCurrency as VsCurrency));
+      
+      res.json({
+        success: true,
+        data: priceData,
+        cache,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse<typeof priceData>);
+      
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+};
+
+// Batch Token Prices
+export const batchPricesRoute: SkillRoute = {
+  method: 'POST',
+  path: '/api/prices',
+  // Priced per token: tokenPrice x number of items in the batch
+  price: (context) => {
+    const tokens = parseBatchPriceRequest(context.adapter.getBody?.());
+    const count = Math.min(tokens?.length || 1, config.maxBatchSize);
+    return scalePrice(config.pricing.tokenPrice, count);
+  },
+  listedPrice: config.pricing.tokenPrice,
+  priceUnit: 'token',
+  summary: 'Batch token price data',
+  description: `Get current prices for up to ${config.maxBatchSize} tokens in one call. Priced per token, with per-item errors.`,
+  input: { tokens: ['ETH', 'BTC', { contractAddress: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913', chain: 'base' }] },
+  inputSchema: {
+    properties: {
+      tokens: {
+        type: 'array',
+        description: 'Tokens to price: symbols (e.g., "ETH") or { contractAddress, chain, pairAddress? } objects',
+        minItems: 1,
+        maxItems: config.maxBatchSize,
+        items: {
+          oneOf: [
+            { type: 'string' },
+            {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string' },
+                contractAddress: { type: 'string' },
+                chain: { type: 'string' },
+                pairAddress: { type: 'string' },
+              },
+            },
+          ],
+        },
+      },
+      vsCurrency: {
+        type: 'string',
+        description: 'Currency prices and amounts are quoted in, for every token (defaults to usd)',
+        enum: [...VS_CURRENCIES],
+        default: 'usd',
+      },
+    },
+    required: ['tokens'],
+  },
+  validate: (req) =>
+    parseBatchPriceRequest(req.body)?.flatMap((token, i) => tokenRequestErrors(`tokens[${i}]`, 'body', token)) ?? [],
+  output: {
+    example: {
+      success: true,
+      data: [
+        {
+          request: { symbol: 'ETH' },
+          data: {
+            symbol: 'ETH',
+            name: 'Ethereum',
+            price: 3245.67,
+            priceChangePercentage24h: 1.41,
+            source: 'coingecko',
+            vsCurrency: 'usd',
+          },
+        },
+        {
+          request: { symbol: 'NOTREAL' },
+          error: 'All price providers failed: Token \'NOTREAL\' not found on CoinGecko',
+          code: 'TOKEN_NOT_FOUND',
+        },
+      ],
+    },
+    schema: {
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              request: { type: 'object' },
+              data: { type: 'object' },
+              error: { type: 'string' },
+              code: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+  handler: async (req, res) => {
+    try {
+      const tokens = parseBatchPriceRequest(req.body);
+      
+      // The batch size is checked against inputSchema before payment
+      if (!tokens) {
+        return sendError(res, new ValidationError('Request body must contain a non-empty tokens array'));
+      }
+      
+      const { result: prices, cache } = await withCacheInfo(() => getTokenPrices(tokens, (req.body.vsCurrency || 'usd') as VsCurrency));
+      
+      res.json({
+        success: true,
+        data: prices,
+        cache,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse<typeof prices>);
+      
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+};
@@ -0,0 +1,112 @@
+import { config } from '../config.js';
+import { sendError } from '../errors.js';
+import { withCacheInfo } from '../services/cache.service.js';
+import { CHAINS } from '../services/price.service.js';
+import { screenToken } from '../services/screening.service.js';
+import type { ApiResponse, SkillRoute } from '../types.js';
+import { contractAddressErrors } from '../validation.js';
+
+// Token Risk Screening
+export const tokenRiskRoute: SkillRoute = {
+  method: 'GET',
+  path: '/api/token-risk',
+  price: config.pricing.tokenRisk,
+  summary: 'Token risk screening',
+  description: 'Screen a token contract for rug-pull risk before trading it: a 0-100 risk score with an itemized breakdown of liquidity depth, liquidity/FDV, pair age, pair count, buy/sell imbalance, holder concentration and contract traits (owner, mint function, proxy).',
+  input: { contractAddress: '0x532f27101965dd16442E59d40670FaF5eBB142E4', chain: 'base' },
+  inputSchema: {
+    properties: {
+      contractAddress: {
+        type: 'string',
+        description: 'Token contract address',
+      },
+      chain: {
+        type: 'string',
+        description: 'Blockchain of the contract. Contract traits are only read on EVM chains.',
+        enum: CHAINS,
+      },
+    },
+    required: ['contractAddress', 'chain'],
+  },
+  validate: (req) => contractAddressErrors('contractAddress', 'query', req.query.contractAddress, req.query.chain),
+  output: {
+    example: {
+      success: true,
+      data: {
+        contractAddress: '0x532f27101965dd16442E59d40670FaF5eBB142E4',
+        chain: 'base',
+        symbol: 'BRETT',
+        name: 'Brett',
+        score: 10,
+        level: 'low',
+        coverage: 100,
+        liquidityUsd: 18420000,
+        pairCount: 24,
+        factors: [
+          { factor: 'liquidity', value: 18420000, points: 0, maxPoints: 20, available: true, detail: '$18,420,000 of liquidity across all pairs' },
+          { factor: 'liquidity_fdv', value: 1.84, points: 10, maxPoints: 15, available: true, detail: 'Liquidity is 1.84% of the $1,001,000,000 fully diluted valuation' },
+          { factor: 'pair_age', value: 487.3, points: 0, maxPoints: 15, available: true, detail: 'First pair created 487.3 days ago' },
+          { factor: 'pair_count', value: 24, points: 0, maxPoints: 5, available: true, detail: 'Trades in 24 pairs' },
+          { factor: 'trade_imbalance', value: 46.2, points: 0, maxPoints: 10, available: true, detail: '5210 buys and 4476 sells in 24h (46.2% sells)' },
+          { factor: 'holder_concentration', value: 31.4, points: 0, maxPoints: 15, available: true, detail: 'Top 10 holders own 31.4% of supply' },
+          { factor: 'owner', value: '0x0000000000000000000000000000000000000000', points: 0, maxPoints: 7, available: true, detail: 'Ownership renounced' },
+          { factor: 'mint_function', value: false, points: 0, maxPoints: 8, available: true, detail: 'No public mint function found' },
+          { factor: 'proxy', value: false, points: 0, maxPoints: 5, available: true, detail: 'Not a proxy' },
+        ],
+        analyzedAt: '2024-01-15T12:30:00.000Z',
+      },
+    },
+    schema: {
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'object',
+          properties: {
+            contractAddress: { type: 'string' },
+            chain: { type: 'string' },
+            symbol: { type: 'string' },
+            name: { type: 'string' },
+            score: { type: 'integer', minimum: 0, maximum: 100 },
+            level: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+            coverage: { type: 'integer', minimum: 0, maximum: 100 },
+            liquidityUsd: { type: 'number' },
+            pairCount: { type: 'integer' },
+            factors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  factor: { type: 'string' },
+                  value: { oneOf: [{ type: 'number' }, { type: 'string' }, { type: 'boolean' }, { type: 'null' }] },
+                  points: { type: 'number' },
+                  maxPoints: { type: 'number' },
+                  available: { type: 'boolean' },
+                  detail: { type: 'string' },
+                },
+              },
+            },
+            analyzedAt: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  handler: async (req, res) => {
+    try {
+      const { contractAddress, chain } = req.query;
+      
+      // Parameters were validated before payment (see inputSchema and validate)
+      const { result: risk, cache } = await withCacheInfo(() => screenToken(String(contractAddress), String(chain)));
+      
+      res.json({
+        success: true,
+        data: risk,
+        cache,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse<typeof risk>);
+      
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+};
@@ -0,0 +1,210 @@
+import { config } from '../config.js';
+import { sendError } from '../errors.js';
+import { withCacheInfo } from '../services/cache.service.js';
+import { VS_CURRENCIES, type VsCurrency } from '../services/currency.service.js';
+import {
+  generateTradingSignals,
+  INDICATOR_NAMES,
+  MIN_LOOKBACK,
+  SIGNAL_INTERVALS,
+  type IndicatorName,
+  type SignalInterval,
+} from '../services/signals.service.js';
+import type { ApiResponse, FieldError, SkillRoute } from '../types.js';
+import { contractAddressErrors } from '../validation.js';
+
+// Split a comma-separated `indicators` query value into known and unknown names
+export function parseIndicatorList(value: unknown): { requested: IndicatorName[]; unknown: string[] } {
+  const names = value ? String(value).split(',').map(i => i.trim().toLowerCase()).filter(Boolean) : [];
+  return {
+    requested: names.filter((i): i is IndicatorName => INDICATOR_NAMES.includes(i as IndicatorName)),
+    unknown: names.filter(i => !INDICATOR_NAMES.includes(i as IndicatorName)),
+  };
+}
+
+// The longest lookback depends on the candle interval
+export function lookbackErrors(field: string, value: unknown, interval: SignalInterval, max = SIGNAL_INTERVALS[interval].maxLookback): FieldError[] {
+  return value !== undefined && Number(value) > max
+    ? [{ field, location: 'query', message: `must be between ${MIN_LOOKBACK} and ${max} for ${interval} candles` }]
+    : [];
+}
+
+export function indicatorErrors(value: unknown): FieldError[] {
+  const { unknown } = parseIndicatorList(value);
+  return unknown.length > 0
+    ? [{ field: 'indicators', location: 'query', message: `unknown indicators: ${unknown.join(', ')}. Use any of: ${INDICATOR_NAMES.join(', ')}` }]
+    : [];
+}
+
+// Trading Signals
+export const signalsRoute: SkillRoute = {
+  method: 'GET',
+  path: '/api/signals/:symbol',
+  price: config.pricing.tradingSignals,
+  summary: 'Trading signals',
+  description: 'Generate technical analysis trading signals from OHLC candles including RSI, MACD, moving averages, Bollinger Bands, Stochastic, Stochastic RSI, ATR, OBV, ADX, VWAP, support/resistance levels, and overall recommendation. Contract addresses (with chain) are analyzed from their most liquid DEX pair, with liquidity warnings.',
+  input: { symbol: 'ETH', interval: 'hourly', lookback: 60, indicators: 'rsi,macd,bollinger' },
+  inputSchema: {
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Token symbol to analyze (e.g., BTC, ETH, SOL) or CoinGecko id, or a contract address together with chain (with chain, must be a contract address)',
+        maxLength: 64,
+      },
+      chain: {
+        type: 'string',
+        description: 'Blockchain of a contract address',
+        enum: ['ethereum', 'base', 'arbitrum', 'polygon', 'optimism', 'avalanche', 'bsc', 'solana'],
+      },
+      interval: {
+        type: 'string',
+        description: 'Candle interval for the analysis (defaults to daily)',
+        enum: Object.keys(SIGNAL_INTERVALS),
+        default: 'daily',
+      },
+      lookback: {
+        type: 'integer',
+        description: 'Number of candles to analyze (max 500 hourly/4h, 364 daily, 52 weekly)',
+        minimum: MIN_LOOKBACK,
+        maximum: 500,
+        default: 60,
+      },
+      indicators: {
+        type: 'string',
+        description: `Comma-separated indicators to compute: ${INDICATOR_NAMES.join(', ')} (defaults to all)`,
+      },
+      vsCurrency: {
+        type: 'string',
+        description: 'Currency prices, levels and indicator values are quoted in (defaults to usd)',
+        enum: [...VS_CURRENCIES],
+        default: 'usd',
+      },
+    },
+    required: ['symbol'],
+  },
+  validate: (req) => {
+    const interval = (req.query.interval || 'daily') as SignalInterval;
+    return [
+      // With chain, the path holds a contract address rather than a ticker
+      ...(req.query.chain ? contractAddressErrors('symbol', 'path', req.params.symbol, req.query.chain) : []),
+      ...lookbackErrors('lookback', req.query.lookback, interval),
+      ...indicatorErrors(req.query.indicators),
+    ];
+  },
+  // One unit per indicator computed (all of them by default)
+  complexity: (context) =>
+    parseIndicatorList(context.adapter.getQueryParam?.('indicators')).requested.length || INDICATOR_NAMES.length,
+  output: {
+    example: {
+      success: true,
+      data: {
+        symbol: 'ETH',
+        interval: 'daily',
+        lookback: 60,
+        currentPrice: 3245.67,
+        vsCurrency: 'usd',
+        overallSignal: 'buy',
+        confidence: 72,
+        trend: 'bullish',
+        volatility: 'medium',
+        supportLevel: 3100.00,
+        resistanceLevel: 3400.00,
+        pivotPoints: { pivot: 3230.10, r1: 3290.40, r2: 3335.20, s1: 3185.30, s2: 3125.00 },
+        indicators: [
+          { name: 'RSI (14)', value: 58.3, signal: 'neutral', interpretation: 'Neutral momentum' },
+          { name: 'SMA 20', value: 3180.50, signal: 'buy', interpretation: 'Price above 20-day SMA (bullish)' },
+          { name: 'MACD', value: 0.015, signal: 'buy', interpretation: 'MACD histogram positive (bullish momentum)' },
+        ],
+        summary: 'ETH: Buy (72% confidence). The bullish trend is supported by 3 bullish and 1 bearish indicators out of 5 analyzed.',
+        generatedAt: '2024-01-15T12:30:00.000Z',
+      },
+    },
+    schema: {
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'object',
+          properties: {
+            symbol: { type: 'string' },
+            interval: { type: 'string', enum: Object.keys(SIGNAL_INTERVALS) },
+            lookback: { type: 'integer' },
+            currentPrice: { type: 'number' },
+            vsCurrency: { type: 'string', enum: [...VS_CURRENCIES] },
+            overallSignal: {
+              type: 'string',
+              enum: ['strong_buy', 'buy', 'neutral', 'sell', 'strong_sell'],
+            },
+            confidence: { type: 'number', minimum: 0, maximum: 100 },
+            trend: { type: 'string', enum: ['bullish', 'bearish', 'sideways'] },
+            volatility: { type: 'string', enum: ['low', 'medium', 'high'] },
+            supportLevel: { type: 'number' },
+            resistanceLevel: { type: 'number' },
+            pivotPoints: {
+              type: 'object',
+              properties: {
+                pivot: { type: 'number' },
+                r1: { type: 'number' },
+                r2: { type: 'number' },
+                s1: { type: 'number' },
+                s2: { type: 'number' },
+              },
+            },
+            indicators: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  value: { type: 'number' },
+                  signal: { type: 'string' },
+                  interpretation: { type: 'string' },
+                },
+              },
+            },
+            summary: { type: 'string' },
+            generatedAt: { type: 'string' },
+            contractAddress: { type: 'string' },
+            chain: { type: 'string' },
+            pair: {
+              type: 'object',
+              properties: {
+                address: { type: 'string' },
+                dexId: { type: 'string' },
+                baseSymbol: { type: 'string' },
+                quoteSymbol: { type: 'string' },
+                liquidityUsd: { type: 'number' },
+                createdAt: { type: 'string' },
+              },
+            },
+            warnings: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+  },
+  handler: async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const { chain, interval = 'daily', lookback, indicators, vsCurrency = 'usd' } = req.query;
+      
+      // Parameters were validated before payment (see inputSchema and validate)
+      const token = chain ? { contractAddress: symbol, chain: String(chain) } : symbol;
+      const { result: signals, cache } = await withCacheInfo(() => generateTradingSignals(token, {
+        interval: interval as SignalInterval,
+        lookback: lookback === undefined ? undefined : Number(lookback),
+        indicators: parseIndicatorList(indicators).requested,
+        vsCurrency: vsCurrency as VsCurrency,
+      }));
+      
+      res.json({
+        success: true,
+        data: signals,
+        cache,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse<typeof signals>);
+      
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+};
@@ -0,0 +1,178 @@
+import type { RequestHandler } from 'express';
+import { config, scalePrice } from '../config.js';
+import { UnauthorizedError, sendError, toApiError } from '../errors.js';
+import { parseBatchPriceRequest, type TokenPriceRequest } from '../services/price.service.js';
+import { resolveToken } from '../services/registry.service.js';
+import {
+  attach,
+  createSubscription,
+  deleteSubscription,
+  detach,
+  findSubscription,
+  type StreamEvent,
+  type StreamSubscription,
+} from '../services/stream.service.js';
+import { bearerToken } from './credits.route.js';
+import { tokenRequestErrors } from '../validation.js';
+import type { ApiResponse, FieldError, SkillRoute } from '../types.js';
+
+const durationMinutes = (body: any): number => Number(body?.durationMinutes) || 60;
+
+// Symbols are resolved through the registry up front, so a stream of unknown
+// or ambiguous tickers is refused before payment instead of failing on its
+// first poll. Tokens given by contract address are priced from DEX pairs.
+function symbolErrors(token: TokenPriceRequest, field: string): FieldError[] {
+  if (!token.symbol || (token.contractAddress && token.chain)) return [];
+  try {
+    resolveToken(token.symbol, token.chain);
+    return [];
+  } catch (error) {
+    return [{ field, location: 'body', message: toApiError(error).message }];
+  }
+}
+
+// Price Stream Subscription
+export const streamRoute: SkillRoute = {
+  method: 'POST',
+  path: '/api/stream',
+  // Priced per minute of subscription time
+  price: (context) => scalePrice(config.pricing.streamMinute, durationMinutes(context.adapter.getBody?.())),
+  listedPrice: config.pricing.streamMinute,
+  priceUnit: 'minute',
+  complexity: (context) => parseBatchPriceRequest(context.adapter.getBody?.())?.length || 1,
+  summary: 'Price streaming',
+  description: `Buy a time-boxed subscription to live price updates for up to ${config.stream.maxTokens} tokens, delivered as server-sent events from GET /api/stream. Priced per minute.`,
+  input: { tokens: ['ETH', 'BTC'], intervalSeconds: 30, durationMinutes: 60 },
+  inputSchema: {
+    properties: {
+      tokens: {
+        type: 'array',
+        description: 'Tokens to stream: symbols (e.g., "ETH") or { contractAddress, chain, pairAddress? } objects',
+        minItems: 1,
+        maxItems: config.stream.maxTokens,
+        items: {
+          oneOf: [
+            { type: 'string' },
+            {
+              type: 'object',
+              properties: {
+                symbol: { type: 'string' },
+                contractAddress: { type: 'string' },
+                chain: { type: 'string' },
+                pairAddress: { type: 'string' },
+              },
+            },
+          ],
+        },
+      },
+      intervalSeconds: {
+        type: 'integer',
+        description: 'Longest gap between updates for each token, in seconds',
+        minimum: config.stream.minIntervalSeconds,
+        maximum: config.stream.maxIntervalSeconds,
+        default: 30,
+      },
+      durationMinutes: {
+        type: 'integer',
+        description: 'Subscription length in minutes (the price is per minute)',
+        minimum: 1,
+        maximum: config.stream.maxDurationMinutes,
+        default: 60,
+      },
+    },
+    required: ['tokens'],
+  },
+  validate: (req) => {
+    const tokens = parseBatchPriceRequest(req.body) ?? [];
+    const errors = tokens.flatMap((token, i) => tokenRequestErrors(`tokens[${i}]`, 'body', token));
+    return errors.length > 0 ? errors : tokens.flatMap((token, i) => symbolErrors(token, `tokens[${i}]`));
+  },
+  output: {
+    example: {
+      success: true,
+      data: {
+        token: 'q2dM1tJ8yXh0bN7rV4aC9eK3sW6fZ5uP',
+        streamUrl: '/api/stream?token=q2dM1tJ8yXh0bN7rV4aC9eK3sW6fZ5uP',
+        tokens: [{ symbol: 'ETH' }, { symbol: 'BTC' }],
+        intervalSeconds: 30,
+        expiresAt: '2024-01-15T13:30:00.000Z',
+      },
+    },
+  },
+  handler: (req, res) => {
+    const tokens = parseBatchPriceRequest(req.body)!;
+    const intervalSeconds = req.body.intervalSeconds === undefined ? 30 : Number(req.body.intervalSeconds);
+    const { token, subscription } = createSubscription(tokens, intervalSeconds, durationMinutes(req.body));
+    
+    // The token is only handed over once the payment settles
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        deleteSubscription(subscription.id);
+      }
+    });
+    
+    const data = {
+      token,
+      streamUrl: `/api/stream?token=${token}`,
+      tokens,
+      intervalSeconds,
+      expiresAt: new Date(subscription.expiresAt).toISOString(),
+    };
+    res.status(201).json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString(),
+    } as ApiResponse<typeof data>);
+  },
+};
+
+// Price Stream (free with a subscription token). EventSource can't set
+// headers, so the token may also be passed as `?token=`.
+export const streamHandler: RequestHandler = (req, res) => {
+  let subscription: StreamSubscription;
+  try {
+    const token = bearerToken(req) || (typeof req.query.token === 'string' ? req.query.token : undefined);
+    if (!token) {
+      return sendError(res, new UnauthorizedError('Send your stream token as ?token=<token> or Authorization: Bearer <token>'));
+    }
+    subscription = findSubscription(token);
+  } catch (error) {
+    return sendError(res, error);
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  
+  send('subscribed', {
+    tokens: subscription.requests,
+    intervalSeconds: subscription.intervalMs / 1000,
+    expiresAt: new Date(subscription.expiresAt).toISOString(),
+  });
+  
+  // Comment lines keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.stream.heartbeatSeconds * 1000);
+  
+  const listener = (event: StreamEvent) => {
+    if (event.type === 'end') {
+      send('end', { reason: event.reason });
+      res.end();
+    } else if (event.type === 'price') {
+      send('price', { request: event.request, data: event.data, timestamp: new Date().toISOString() });
+    } else {
+      send('error', { request: event.request, error: event.error, code: event.code, timestamp: new Date().toISOString() });
+    }
+  };
+  attach(subscription, listener);
+  
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (subscription.listener === listener) {
+      detach(subscription);
+    }
+  });
+};
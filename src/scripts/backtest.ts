@@ -0,0 +1,57 @@
+// Offline backtest runner.
+//
+//   Record a fixture:  npm run backtest -- --record fixtures/eth-daily.json --symbol ETH --interval daily
+//   Replay a fixture:  npm run backtest -- --fixture fixtures/eth-daily.json [--window 60] [--horizon 1]
+//
+// Replaying needs no network access, so scoring changes can be compared
+// against the same recorded candles before deploying them. A synthetic
+// fixture ships in fixtures/synthetic-daily.json (replayed by npm test).
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { runBacktest, type BacktestFixture } from '../services/backtest.service.js';
+import { fetchPriceHistory, SIGNAL_INTERVALS, type IndicatorName, type SignalInterval } from '../services/signals.service.js';
+
+const { values } = parseArgs({
+  options: {
+    fixture: { type: 'string' },
+    record: { type: 'string' },
+    symbol: { type: 'string', default: 'ETH' },
+    interval: { type: 'string', default: 'daily' },
+    window: { type: 'string' },
+    horizon: { type: 'string' },
+    indicators: { type: 'string' },
+  },
+});
+
+async function main() {
+  if (values.record) {
+    const interval = values.interval as SignalInterval;
+    const candles = await fetchPriceHistory(values.symbol!, interval, SIGNAL_INTERVALS[interval].maxLookback);
+    const fixture: BacktestFixture = { symbol: values.symbol!.toUpperCase(), interval, candles };
+    writeFileSync(values.record, JSON.stringify(fixture, null, 2));
+    console.log(`Recorded ${candles.length} ${interval} candles for ${fixture.symbol} to ${values.record}`);
+    return;
+  }
+
+  if (!values.fixture) {
+    console.error('Usage: backtest --fixture <file> | --record <file> --symbol <SYMBOL> --interval <interval>');
+    process.exit(1);
+  }
+
+  const fixture: BacktestFixture = JSON.parse(readFileSync(values.fixture, 'utf8'));
+  const result = runBacktest(fixture.symbol, fixture.candles, {
+    interval: fixture.interval,
+    window: values.window ? parseInt(values.window, 10) : undefined,
+    horizon: values.horizon ? parseInt(values.horizon, 10) : undefined,
+    indicators: values.indicators?.split(',') as IndicatorName[] | undefined,
+  });
+
+  const { equityCurve, ...strategy } = result.strategy;
+  console.log(JSON.stringify({ ...result, strategy: { ...strategy, equityPoints: equityCurve.length } }, null, 2));
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
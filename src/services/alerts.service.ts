@@ -0,0 +1,365 @@
+import axios from 'axios';
+import { createHmac, randomBytes } from 'node:crypto';
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { BlockList, isIP } from 'node:net';
+import { config } from '../config.js';
+import { UnauthorizedError, ValidationError, toApiError } from '../errors.js';
+import { getTokenPrice, type TokenPrice } from './price.service.js';
+import { generateTradingSignals, type IndicatorName, type SignalInterval, type SignalStrength, type TradingSignal } from './signals.service.js';
+
+// =============================================================================
+// Alerts
+// =============================================================================
+
+export const CONDITION_TYPES = ['price_above', 'price_below', 'change_24h', 'signal', 'rsi_above', 'rsi_below'] as const;
+
+export type ConditionType = typeof CONDITION_TYPES[number];
+
+// `value` is a price for price_*, a percentage for change_24h (either
+// direction), an RSI level for rsi_*, and a SignalStrength for signal
+export interface AlertCondition {
+  type: ConditionType;
+  value: number | SignalStrength;
+}
+
+export interface AlertDelivery {
+  triggeredAt: string;
+  condition: AlertCondition;
+  observed: number | string;   // The value that met the condition
+  price: number;
+  attempts: { at: string; status?: number; error?: string }[];
+  delivered: boolean;
+}
+
+export interface Alert {
+  id: string;
+  symbol: string;
+  interval: SignalInterval;    // Candles for signal and RSI conditions
+  conditions: AlertCondition[];
+  webhookUrl: string;
+  secret: string;              // Signs webhook payloads
+  createdAt: string;
+  expiresAt: string;
+  met: boolean[];              // Whether each condition held at the last check
+  lastCheckedAt?: string;
+  lastError?: string;
+  history: AlertDelivery[];    // Most recent first
+}
+
+// Signal and RSI conditions need candles; price conditions only the spot price
+const needsSignals = (alert: Alert) => alert.conditions.some(c => c.type === 'signal' || c.type.startsWith('rsi_'));
+
+// A signal condition watches the same overallSignal as /api/signals, so it
+// needs every indicator; RSI conditions alone only need RSI
+const signalIndicators = (alert: Alert): IndicatorName[] | undefined =>
+  alert.conditions.some(c => c.type === 'signal') ? undefined : ['rsi'];
+
+const alerts = new Map<string, Alert>();
+
+if (config.alerts.filePath && existsSync(config.alerts.filePath)) {
+  try {
+    const stored: Alert[] = JSON.parse(readFileSync(config.alerts.filePath, 'utf8'));
+    const now = Date.now();
+    for (const alert of stored) {
+      if (Date.parse(alert.expiresAt) > now) alerts.set(alert.id, alert);
+    }
+  } catch (error: any) {
+    console.error('Failed to load alerts file:', error.message);
+  }
+}
+
+let flushTimer: NodeJS.Timeout | null = null;
+
+function scheduleFlush(): void {
+  const filePath = config.alerts.filePath;
+  if (!filePath || flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    writeFile(filePath, JSON.stringify([...alerts.values()]))
+      .catch(error => console.error('Failed to write alerts file:', error.message));
+  }, 1000);
+  flushTimer.unref();
+}
+
+/**
+ * Register an alert. The returned token manages the alert and the secret
+ * signs its webhook payloads; neither is shown again.
+ */
+export function createAlert(options: {
+  symbol: string;
+  interval: SignalInterval;
+  conditions: AlertCondition[];
+  webhookUrl: string;
+  durationDays: number;
+}): Alert {
+  const now = new Date();
+  const alert: Alert = {
+    // The id is the bearer secret for the alert, so it must be unguessable
+    id: randomBytes(24).toString('base64url'),
+    symbol: options.symbol.toUpperCase(),
+    interval: options.interval,
+    conditions: options.conditions,
+    webhookUrl: options.webhookUrl,
+    secret: randomBytes(32).toString('hex'),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + options.durationDays * 24 * 60 * 60 * 1000).toISOString(),
+    met: options.conditions.map(() => false),
+    history: [],
+  };
+  alerts.set(alert.id, alert);
+  scheduleFlush();
+  startScheduler();
+  return alert;
+}
+
+export function deleteAlert(id: string): void {
+  alerts.delete(id);
+  scheduleFlush();
+}
+
+export function findAlert(token: string): Alert {
+  const alert = alerts.get(token);
+  if (!alert || Date.parse(alert.expiresAt) <= Date.now()) {
+    throw new UnauthorizedError('Alert has expired or does not exist');
+  }
+  return alert;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * The value a condition watches, or undefined if it isn't available (e.g. RSI
+ * when the signals could not be computed).
+ */
+function observe(condition: AlertCondition, price: TokenPrice, signals?: TradingSignal): number | string | undefined {
+  switch (condition.type) {
+    case 'price_above':
+    case 'price_below':
+      return price.price;
+    case 'change_24h':
+      return price.priceChangePercentage24h;
+    case 'signal':
+      return signals?.overallSignal;
+    case 'rsi_above':
+    case 'rsi_below':
+      return signals?.indicators.find(i => i.name.startsWith('RSI'))?.value;
+  }
+}
+
+function isMet(condition: AlertCondition, observed: number | string): boolean {
+  const value = condition.value;
+  switch (condition.type) {
+    case 'price_above':
+    case 'rsi_above':
+      return (observed as number) > (value as number);
+    case 'price_below':
+    case 'rsi_below':
+      return (observed as number) < (value as number);
+    case 'change_24h':
+      return Math.abs(observed as number) >= (value as number);
+    case 'signal':
+      return observed === value;
+  }
+}
+
+/**
+ * Check every alert once. Each symbol's price (and signals, per interval and
+ * indicator set) is fetched once per check however many alerts watch it.
+ *
+ * Conditions are edge-triggered: an alert fires when a condition goes from
+ * not met to met, then re-arms once it stops holding. A condition that
+ * already holds on the first check fires straight away.
+ */
+export async function checkAlerts(): Promise<void> {
+  const now = Date.now();
+  const prices = new Map<string, Promise<TokenPrice>>();
+  const signals = new Map<string, Promise<TradingSignal>>();
+  
+  for (const alert of [...alerts.values()]) {
+    if (Date.parse(alert.expiresAt) <= now) {
+      deleteAlert(alert.id);
+    }
+  }
+  
+  await Promise.all([...alerts.values()].map(async (alert) => {
+    try {
+      if (!prices.has(alert.symbol)) {
+        prices.set(alert.symbol, getTokenPrice({ symbol: alert.symbol }));
+      }
+      const indicators = signalIndicators(alert);
+      const signalKey = `${alert.symbol}:${alert.interval}:${indicators?.join(',') ?? 'all'}`;
+      if (needsSignals(alert) && !signals.has(signalKey)) {
+        signals.set(signalKey, generateTradingSignals(alert.symbol, { interval: alert.interval, indicators }));
+      }
+      const [price, signal] = await Promise.all([prices.get(alert.symbol)!, signals.get(signalKey)]);
+      
+      alert.conditions.forEach((condition, i) => {
+        const observed = observe(condition, price, signal);
+        if (observed === undefined) return;
+        const met = isMet(condition, observed);
+        if (met && !alert.met[i]) {
+          trigger(alert, condition, observed, price.price);
+        }
+        alert.met[i] = met;
+      });
+      alert.lastError = undefined;
+    } catch (error) {
+      alert.lastError = toApiError(error).message;
+    }
+    alert.lastCheckedAt = new Date().toISOString();
+  }));
+  scheduleFlush();
+}
+
+let scheduler: NodeJS.Timeout | null = null;
+let checking = false;
+
+function startScheduler(): void {
+  if (scheduler) return;
+  scheduler = setInterval(() => {
+    // A slow check (e.g. upstream timeouts) must not overlap the next one
+    if (checking) return;
+    checking = true;
+    checkAlerts().finally(() => { checking = false; });
+  }, config.alerts.checkIntervalSeconds * 1000);
+  scheduler.unref();
+}
+
+if (alerts.size > 0) {
+  startScheduler();
+}
+
+// =============================================================================
+// Webhook Delivery
+// =============================================================================
+
+// Webhooks are called from the server, so they must not reach private,
+// loopback, link-local, multicast or other special-purpose networks. NAT64
+// addresses (64:ff9b::/96) reach an embedded IPv4 address, so they are refused
+// outright.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked as the IPv4 address
+// they map to. The URL parser normalizes them to ::ffff:xxxx:xxxx.
+function mappedIPv4(address: string): string | undefined {
+  const match = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(new URL(`http://[${address}]`).hostname.slice(1, -1));
+  if (!match) return undefined;
+  const [high, low] = [parseInt(match[1], 16), parseInt(match[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 6) {
+    const [ipv6] = address.split('%');     // Drop any zone id (fe80::1%eth0)
+    const ipv4 = mappedIPv4(ipv6);
+    return ipv4 ? PRIVATE_NETWORKS.check(ipv4, 'ipv4') : PRIVATE_NETWORKS.check(ipv6, 'ipv6');
+  }
+  return family === 4 && PRIVATE_NETWORKS.check(address, 'ipv4');
+}
+
+/**
+ * Resolve a webhook host and check every address it resolves to. Called when
+ * an alert is created and as the DNS lookup for each delivery, so a host that
+ * later starts resolving to a private address is never connected to.
+ */
+export async function resolveWebhookHost(hostname: string): Promise<LookupAddress[]> {
+  const invalid = (message: string) =>
+    new ValidationError(`Webhook host ${hostname} ${message}`, [{ field: 'webhookUrl', location: 'body', message }]);
+  
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true, verbatim: true });
+  } catch {
+    throw invalid('could not be resolved');
+  }
+  if (addresses.length === 0) {
+    throw invalid('could not be resolved');
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw invalid('must resolve to public addresses only');
+  }
+  return addresses;
+}
+
+export const SIGNATURE_HEADER = 'X-Alert-Signature';
+export const TIMESTAMP_HEADER = 'X-Alert-Timestamp';
+
+/**
+ * Sign a webhook body. Receivers recompute the HMAC-SHA256 of
+ * `${timestamp}.${body}` with the alert's secret and compare.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function trigger(alert: Alert, condition: AlertCondition, observed: number | string, price: number): void {
+  const delivery: AlertDelivery = {
+    triggeredAt: new Date().toISOString(),
+    condition,
+    observed,
+    price,
+    attempts: [],
+    delivered: false,
+  };
+  alert.history.unshift(delivery);
+  alert.history.splice(config.alerts.historyLimit);
+  
+  const body = JSON.stringify({
+    event: 'alert.triggered',
+    symbol: alert.symbol,
+    condition,
+    observed,
+    price,
+    triggeredAt: delivery.triggeredAt,
+    expiresAt: alert.expiresAt,
+  });
+  deliver(alert, delivery, body);
+}
+
+// POST the payload, retrying with exponential backoff until it is accepted
+// with a 2xx or the attempts run out. The same body (and triggeredAt) is sent
+// on every attempt so receivers can deduplicate.
+async function deliver(alert: Alert, delivery: AlertDelivery, body: string): Promise<void> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  try {
+    const response = await axios.post(alert.webhookUrl, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signPayload(alert.secret, timestamp, body),
+      },
+      timeout: config.alerts.deliveryTimeoutMs,
+      maxRedirects: 0,
+      lookup: async (hostname: string) => [await resolveWebhookHost(hostname)],
+      validateStatus: () => true,
+    });
+    delivery.attempts.push({ at: new Date().toISOString(), status: response.status });
+    delivery.delivered = response.status >= 200 && response.status < 300;
+  } catch (error: any) {
+    delivery.attempts.push({ at: new Date().toISOString(), error: error.message });
+  }
+  scheduleFlush();
+  
+  const attempt = delivery.attempts.length;
+  if (!delivery.delivered && attempt < config.alerts.maxAttempts && alerts.has(alert.id)) {
+    setTimeout(() => deliver(alert, delivery, body), config.alerts.retryBaseMs * 2 ** (attempt - 1)).unref();
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  analyzePriceHistory,
+  fetchPriceHistory,
+  DEFAULT_LOOKBACK,
+  SIGNAL_INTERVALS,
+  type IndicatorName,
+  type PriceData,
+  type SignalInterval,
+  type SignalStrength,
+} from './signals.service.js';
+import { InsufficientDataError } from '../errors.js';
+
+export interface BacktestOptions {
+  interval?: SignalInterval;
+  window?: number;   // Candles fed to the indicators at each step
+  horizon?: number;  // Candles ahead used to score each signal
+  indicators?: IndicatorName[];
+}
+
+export interface SignalClassStats {
+  count: number;
+  avgForwardReturn: number; // % over the horizon
+  hitRate: number;          // % of signals whose direction matched the forward return
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+export interface BacktestResult {
+  symbol: string;
+  interval: SignalInterval;
+  window: number;
+  horizon: number;
+  candles: number;
+  signalsEvaluated: number;
+  hitRate: number; // % across buy/sell classes; neutral signals are excluded
+  byClass: Record<SignalStrength, SignalClassStats>;
+  strategy: {
+    description: string;
+    totalReturn: number;     // %
+    buyAndHoldReturn: number; // %
+    maxDrawdown: number;     // %
+    timeInMarket: number;    // % of steps spent long
+    equityCurve: EquityPoint[];
+  };
+  generatedAt: string;
+}
+
+// Fixture format for offline replays
+export interface BacktestFixture {
+  symbol: string;
+  interval: SignalInterval;
+  candles: PriceData[];
+}
+
+const SIGNAL_CLASSES: SignalStrength[] = ['strong_buy', 'buy', 'neutral', 'sell', 'strong_sell'];
+
+export async function backtestSymbol(symbol: string, options: BacktestOptions = {}): Promise<BacktestResult> {
+  const interval = options.interval || 'daily';
+  // Pull the longest history available for the interval
+  const history = await fetchPriceHistory(symbol, interval, SIGNAL_INTERVALS[interval].maxLookback);
+  return runBacktest(symbol, history, { ...options, interval });
+}
+
+/**
+ * Replay the live indicator and scoring logic over a candle series. At each
+ * step only the trailing `window` candles are visible, so there is no
+ * look-ahead. Needs no network access, so it runs against recorded fixtures.
+ */
+export function runBacktest(symbol: string, history: PriceData[], options: BacktestOptions = {}): BacktestResult {
+  const interval = options.interval || 'daily';
+  const window = options.window || DEFAULT_LOOKBACK;
+  const horizon = options.horizon || 1;
+
+  if (history.length < window + horizon + 1) {
+    throw new InsufficientDataError(
+      `Insufficient price history for backtest: need at least ${window + horizon + 1} candles, got ${history.length}`
+    );
+  }
+
+  const prices = history.map(p => p.close);
+  const forwardReturns: Record<SignalStrength, number[]> = {
+    strong_buy: [], buy: [], neutral: [], sell: [], strong_sell: [],
+  };
+  let hits = 0;
+  let directional = 0;
+
+  // Long/flat strategy: hold for the next candle whenever the signal is a buy
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  let stepsLong = 0;
+  const equityCurve: EquityPoint[] = [{ timestamp: history[window - 1].timestamp, equity }];
+
+  for (let t = window - 1; t < history.length - 1; t++) {
+    const { overallSignal } = analyzePriceHistory(symbol, history.slice(t + 1 - window, t + 1), {
+      interval,
+      indicators: options.indicators,
+    });
+
+    if (t + horizon < history.length) {
+      const forwardReturn = (prices[t + horizon] - prices[t]) / prices[t];
+      forwardReturns[overallSignal].push(forwardReturn);
+      const direction = signalDirection(overallSignal);
+      if (direction !== 0) {
+        directional++;
+        if (Math.sign(forwardReturn) === direction) hits++;
+      }
+    }
+
+    if (signalDirection(overallSignal) > 0) {
+      equity *= prices[t + 1] / prices[t];
+      stepsLong++;
+    }
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    equityCurve.push({ timestamp: history[t + 1].timestamp, equity: round(equity, 6) });
+  }
+
+  const steps = history.length - window;
+  const byClass = Object.fromEntries(SIGNAL_CLASSES.map(signal => {
+    const returns = forwardReturns[signal];
+    const direction = signalDirection(signal);
+    const classHits = returns.filter(r => direction === 0 ? false : Math.sign(r) === direction).length;
+    return [signal, {
+      count: returns.length,
+      avgForwardReturn: returns.length > 0 ? round(mean(returns) * 100, 4) : 0,
+      hitRate: returns.length > 0 && direction !== 0 ? round((classHits / returns.length) * 100, 2) : 0,
+    }];
+  })) as Record<SignalStrength, SignalClassStats>;
+
+  return {
+    symbol: symbol.toUpperCase(),
+    interval,
+    window,
+    horizon,
+    candles: history.length,
+    signalsEvaluated: SIGNAL_CLASSES.reduce((sum, s) => sum + forwardReturns[s].length, 0),
+    hitRate: directional > 0 ? round((hits / directional) * 100, 2) : 0,
+    byClass,
+    strategy: {
+      description: 'Long for the next candle on buy/strong_buy, flat otherwise',
+      totalReturn: round((equity - 1) * 100, 4),
+      buyAndHoldReturn: round((prices[prices.length - 1] / prices[window - 1] - 1) * 100, 4),
+      maxDrawdown: round(maxDrawdown * 100, 4),
+      timeInMarket: round((stepsLong / steps) * 100, 2),
+      equityCurve,
+    },
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function signalDirection(signal: SignalStrength): number {
+  if (signal === 'strong_buy' || signal === 'buy') return 1;
+  if (signal === 'strong_sell' || signal === 'sell') return -1;
+  return 0;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
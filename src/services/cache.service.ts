@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { config } from '../config.js';
+import type { CacheInfo } from '../types.js';
+
+export type CacheType = keyof typeof config.cache.ttlSeconds;
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+}
+
+// In-memory LRU: Map preserves insertion order, so re-inserting on read keeps
+// the most recently used keys at the end and the eviction candidate first
+export class MemoryLruStore implements CacheStore {
+  protected entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+// LRU store that is loaded from and persisted to a JSON file so the cache
+// survives restarts. Writes are debounced to avoid a disk write per lookup.
+export class FileCacheStore extends MemoryLruStore {
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private filePath: string, maxEntries: number) {
+    super(maxEntries);
+    if (existsSync(filePath)) {
+      try {
+        const stored: Record<string, CacheEntry> = JSON.parse(readFileSync(filePath, 'utf8'));
+        const now = Date.now();
+        for (const [key, entry] of Object.entries(stored)) {
+          if (entry.expiresAt > now) super.set(key, entry);
+        }
+      } catch (error: any) {
+        console.error('Failed to load cache file:', error.message);
+      }
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    super.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      writeFile(this.filePath, JSON.stringify(Object.fromEntries(this.entries)))
+        .catch(error => console.error('Failed to write cache file:', error.message));
+    }, 1000);
+    this.flushTimer.unref();
+  }
+}
+
+const store: CacheStore = config.cache.filePath
+  ? new FileCacheStore(config.cache.filePath, config.cache.maxEntries)
+  : new MemoryLruStore(config.cache.maxEntries);
+
+// Fetches in flight, so concurrent misses for a key share one upstream call
+const pending = new Map<string, Promise<unknown>>();
+
+// Records every cache lookup made while serving a request
+const lookups = new AsyncLocalStorage<CacheInfo[]>();
+
+/**
+ * Return the cached value for `key` if it is still fresh, otherwise call
+ * `fetcher` and store its result for the TTL configured for `type`.
+ * Concurrent misses for the same key wait on a single fetch. Failed fetches
+ * are not cached.
+ */
+export async function cached<T>(type: CacheType, key: string, fetcher: () => Promise<T>): Promise<T> {
+  const cacheKey = `${type}:${key}`;
+  const now = Date.now();
+  const entry = store.get(cacheKey);
+
+  if (entry && entry.expiresAt > now) {
+    lookups.getStore()?.push({ hit: true, ageSeconds: Math.round((now - entry.storedAt) / 1000) });
+    return entry.value as T;
+  }
+
+  let fetching = pending.get(cacheKey) as Promise<T> | undefined;
+  if (!fetching) {
+    fetching = fetcher()
+      .then(value => {
+        const storedAt = Date.now();
+        store.set(cacheKey, {
+          value,
+          storedAt,
+          expiresAt: storedAt + config.cache.ttlSeconds[type] * 1000,
+        });
+        return value;
+      })
+      .finally(() => pending.delete(cacheKey));
+    pending.set(cacheKey, fetching);
+  }
+
+  const value = await fetching;
+  lookups.getStore()?.push({ hit: false, ageSeconds: 0 });
+  return value;
+}
+
+/**
+ * Run `fn` and report how its data was served. The response only counts as a
+ * cache hit if every lookup was a hit, and its age is that of the oldest data.
+ */
+export async function withCacheInfo<T>(fn: () => Promise<T>): Promise<{ result: T; cache: CacheInfo }> {
+  const recorded: CacheInfo[] = [];
+  const result = await lookups.run(recorded, fn);
+  return {
+    result,
+    cache: {
+      hit: recorded.length > 0 && recorded.every(l => l.hit),
+      ageSeconds: recorded.reduce((max, l) => Math.max(max, l.ageSeconds), 0),
+    },
+  };
+}
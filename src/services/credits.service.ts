@@ -0,0 +1,161 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { config } from '../config.js';
+import { InsufficientCreditError, UnauthorizedError } from '../errors.js';
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+// Amounts are kept in micro-dollars (USDC's 6 decimals) to avoid float drift
+export interface CreditSession {
+  id: string;
+  payer?: string;
+  purchasedMicros: number;
+  balanceMicros: number;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  usage: Record<string, { calls: number; spentMicros: number }>; // By route
+}
+
+export interface CreditSummary {
+  payer?: string;
+  purchased: `$${string}`;
+  spent: `$${string}`;
+  balance: `$${string}`;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  usage: { route: string; calls: number; spent: `$${string}` }[];
+}
+
+const secret = config.credits.secret || randomBytes(32).toString('hex');
+if (!config.credits.secret) {
+  console.warn('[credits] CREDITS_SECRET is not set: session tokens will stop working when the server restarts');
+}
+
+const sessions = new Map<string, CreditSession>();
+
+if (config.credits.filePath && existsSync(config.credits.filePath)) {
+  try {
+    const stored: CreditSession[] = JSON.parse(readFileSync(config.credits.filePath, 'utf8'));
+    const now = Date.now();
+    for (const session of stored) {
+      if (Date.parse(session.expiresAt) > now) sessions.set(session.id, session);
+    }
+  } catch (error: any) {
+    console.error('Failed to load credits file:', error.message);
+  }
+}
+
+// Balances are written back shortly after they change, batching bursts of calls
+let flushTimer: NodeJS.Timeout | null = null;
+
+function scheduleFlush(): void {
+  const filePath = config.credits.filePath;
+  if (!filePath || flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    writeFile(filePath, JSON.stringify([...sessions.values()]))
+      .catch(error => console.error('Failed to write credits file:', error.message));
+  }, 1000);
+  flushTimer.unref();
+}
+
+const toMicros = (price: string): number => Math.round(parseFloat(price.replace('$', '')) * 1e6);
+const toPrice = (micros: number): `$${string}` => `$${parseFloat((micros / 1e6).toFixed(6))}`;
+
+function sign(id: string): string {
+  return createHmac('sha256', secret).update(id).digest('base64url');
+}
+
+/**
+ * Open a session holding `amount` of credit. The returned token is the only
+ * way to spend it.
+ */
+export function createSession(amount: `$${string}`, payer?: string): { token: string; session: CreditSession } {
+  const id = randomBytes(16).toString('base64url');
+  const now = new Date();
+  const session: CreditSession = {
+    id,
+    payer,
+    purchasedMicros: toMicros(amount),
+    balanceMicros: toMicros(amount),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + config.credits.sessionTtlDays * 24 * 60 * 60 * 1000).toISOString(),
+    usage: {},
+  };
+  sessions.set(id, session);
+  scheduleFlush();
+  return { token: `${id}.${sign(id)}`, session };
+}
+
+export function deleteSession(id: string): void {
+  sessions.delete(id);
+  scheduleFlush();
+}
+
+export function findSession(token: string): CreditSession {
+  const [id, signature = ''] = token.split('.');
+  const expected = Buffer.from(sign(id));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new UnauthorizedError('Invalid session token');
+  }
+  
+  const session = sessions.get(id);
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) {
+    if (session) deleteSession(id);
+    throw new UnauthorizedError('Session has expired or no longer exists');
+  }
+  return session;
+}
+
+// =============================================================================
+// Balance
+// =============================================================================
+
+export function debit(session: CreditSession, route: string, price: `$${string}`): void {
+  const micros = toMicros(price);
+  if (micros > session.balanceMicros) {
+    throw new InsufficientCreditError(
+      `Insufficient credit: ${route} costs ${price}, ${toPrice(session.balanceMicros)} remaining. Buy more with POST /api/credits or pay with x402.`
+    );
+  }
+  session.balanceMicros -= micros;
+  const usage = session.usage[route] || { calls: 0, spentMicros: 0 };
+  usage.calls++;
+  usage.spentMicros += micros;
+  session.usage[route] = usage;
+  session.lastUsedAt = new Date().toISOString();
+  scheduleFlush();
+}
+
+// Undo a debit for a request that failed, like a voided x402 payment
+export function refund(session: CreditSession, route: string, price: `$${string}`): void {
+  const micros = toMicros(price);
+  session.balanceMicros += micros;
+  const usage = session.usage[route];
+  if (usage) {
+    usage.calls--;
+    usage.spentMicros -= micros;
+  }
+  scheduleFlush();
+}
+
+export function summarizeSession(session: CreditSession): CreditSummary {
+  return {
+    payer: session.payer,
+    purchased: toPrice(session.purchasedMicros),
+    spent: toPrice(session.purchasedMicros - session.balanceMicros),
+    balance: toPrice(session.balanceMicros),
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+    lastUsedAt: session.lastUsedAt,
+    usage: Object.entries(session.usage)
+      .filter(([, usage]) => usage.calls > 0)
+      .map(([route, usage]) => ({ route, calls: usage.calls, spent: toPrice(usage.spentMicros) })),
+  };
+}
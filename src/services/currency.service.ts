@@ -0,0 +1,47 @@
+import axios from 'axios';
+import { cached } from './cache.service.js';
+import { UpstreamUnavailableError, upstreamError } from '../errors.js';
+
+// Currencies prices and values can be quoted in. All data sources are
+// USD-based (except CoinGecko history, which is fetched in the currency
+// directly), so other currencies are converted at the current rate.
+export const VS_CURRENCIES = ['usd', 'eur', 'jpy', 'eth', 'btc'] as const;
+
+export type VsCurrency = typeof VS_CURRENCIES[number];
+
+/**
+ * Units of `currency` per US dollar, from CoinGecko's exchange rates (fiat and
+ * crypto, all relative to BTC).
+ */
+export async function usdRate(currency: VsCurrency): Promise<number> {
+  if (currency === 'usd') return 1;
+  
+  try {
+    const rates = await cached('fx', 'coingecko:exchange_rates', async () => {
+      const response = await axios.get('https://api.coingecko.com/api/v3/exchange_rates', { timeout: 10000 });
+      return response.data.rates as Record<string, { value: number }>;
+    });
+    const rate = rates[currency]?.value / rates.usd?.value;
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new UpstreamUnavailableError(`CoinGecko has no exchange rate for ${currency.toUpperCase()}`);
+    }
+    return rate;
+  } catch (error) {
+    throw upstreamError(error, 'Failed to fetch exchange rates from CoinGecko');
+  }
+}
+
+/**
+ * A copy of `data` with the named USD fields converted at `rate`. Fields
+ * that aren't numbers (e.g. absent optional ones) are left as they are.
+ */
+export function convertFields<T extends object>(data: T, fields: (keyof T)[], rate: number): T {
+  const converted = { ...data };
+  for (const field of fields) {
+    const value = data[field];
+    if (typeof value === 'number') {
+      (converted as any)[field] = value * rate;
+    }
+  }
+  return converted;
+}
@@ -0,0 +1,98 @@
+import {
+  SIGNAL_INTERVALS,
+  fetchDexCandles,
+  fetchPriceHistory,
+  findDexPair,
+  maxDexRangeMs,
+  type DexPair,
+  type PriceData,
+  type SignalInterval,
+} from './signals.service.js';
+
+export interface HistoryRequest {
+  symbol?: string;
+  contractAddress?: string;
+  chain?: string;
+  interval: SignalInterval;
+  from: number; // Unix ms
+  to: number;   // Unix ms
+}
+
+export interface PriceHistory {
+  symbol: string;
+  contractAddress?: string;
+  chain?: string;
+  pair?: DexPair;             // The DEX pair candles were taken from
+  interval: SignalInterval;
+  from: string;
+  to: string;
+  source: 'coingecko' | 'geckoterminal';
+  // CoinGecko only publishes rolling 24h volumes; DEX candles carry the volume
+  // traded within each candle
+  volumeType: 'rolling_24h' | 'candle';
+  candles: PriceData[];
+}
+
+const candleMs = (interval: SignalInterval) => SIGNAL_INTERVALS[interval].hoursPerCandle * 60 * 60 * 1000;
+
+/**
+ * The earliest `from` CoinGecko history can serve for an interval, bounded
+ * by the same window as trading signals.
+ */
+export function earliestSymbolHistory(interval: SignalInterval, now = Date.now()): number {
+  return now - SIGNAL_INTERVALS[interval].maxLookback * candleMs(interval);
+}
+
+/**
+ * The earliest `from` a single DEX candle request can serve for a range
+ * ending at `to`.
+ */
+export function earliestDexHistory(interval: SignalInterval, to: number): number {
+  return to - maxDexRangeMs(interval);
+}
+
+/**
+ * OHLCV candles between `from` and `to` (by close time). Symbols come from
+ * CoinGecko; contract addresses from the most liquid DEX pair on their chain.
+ */
+export async function getPriceHistory(request: HistoryRequest): Promise<PriceHistory> {
+  const { interval, from, to } = request;
+  const inRange = (candle: PriceData) => candle.timestamp >= from && candle.timestamp <= to;
+  const range = { interval, from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+  
+  if (request.contractAddress && request.chain) {
+    const pair = await findDexPair(request.contractAddress, request.chain);
+    const candles = await fetchDexCandles(pair.address, request.contractAddress, request.chain, interval, from, to);
+    return {
+      symbol: pair.baseSymbol,
+      contractAddress: request.contractAddress,
+      chain: request.chain,
+      pair,
+      ...range,
+      source: 'geckoterminal',
+      volumeType: 'candle',
+      candles: candles.filter(inRange),
+    };
+  }
+  
+  const symbol = request.symbol!.toUpperCase();
+  // fetchPriceHistory counts back from now, so ask for enough candles to reach `from`
+  const lookback = Math.min(Math.ceil((Date.now() - from) / candleMs(interval)) + 1, SIGNAL_INTERVALS[interval].maxLookback);
+  const candles = await fetchPriceHistory(symbol, interval, lookback);
+  return {
+    symbol,
+    ...range,
+    source: 'coingecko',
+    volumeType: 'rolling_24h',
+    candles: candles.filter(inRange),
+  };
+}
+
+/**
+ * Render candles as CSV, one row per candle. Timestamps are Unix ms close
+ * times, as in the JSON output.
+ */
+export function candlesToCsv(candles: PriceData[]): string {
+  const rows = candles.map(c => [c.timestamp, c.open, c.high, c.low, c.close, c.volume].join(','));
+  return ['timestamp,open,high,low,close,volume', ...rows].join('\n') + '\n';
+}
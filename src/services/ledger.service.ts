@@ -0,0 +1,342 @@
+import { createReadStream, existsSync } from 'node:fs';
+import { appendFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { decodePaymentResponseHeader, decodePaymentSignatureHeader } from '@x402/core/http';
+import { config } from '../config.js';
+import { assetDecimals } from '../payments.js';
+
+// =============================================================================
+// Ledger Entries
+// =============================================================================
+
+// settled: charged; voided: the endpoint failed so the payment was not settled
+// (or the credits were refunded); settlement_failed: the endpoint succeeded but
+// the facilitator did not settle; rejected: the payment (or the request) was
+// refused before the endpoint ran
+export type LedgerOutcome = 'settled' | 'voided' | 'settlement_failed' | 'rejected';
+
+export interface LedgerEntry {
+  timestamp: string;
+  route: string;            // e.g. 'GET /api/signals/:symbol'
+  payer?: string;
+  amount?: string;          // Atomic units of `asset`
+  asset?: string;
+  priceUsd?: number;
+  network?: string;
+  transaction?: string;     // Settlement tx hash
+  latencyMs: number;
+  status: number;
+  outcome: LedgerOutcome;
+  error?: string;           // Error code or reason for unsettled payments
+  paidWith?: 'credits';     // Drawn from prepaid credits; absent for x402 payments
+}
+
+export interface PaymentDetails {
+  payer?: string;
+  amount?: string;
+  asset?: string;
+  network?: string;
+}
+
+/**
+ * Read who is paying and what they signed for out of an x402 payment header.
+ * Returns undefined for headers that don't decode.
+ */
+export function decodePayment(paymentHeader: string): PaymentDetails | undefined {
+  try {
+    const { accepted, payload } = decodePaymentSignatureHeader(paymentHeader);
+    const from = (payload as any)?.authorization?.from;
+    return {
+      payer: typeof from === 'string' ? from.toLowerCase() : undefined,
+      amount: accepted?.amount,
+      asset: accepted?.asset,
+      network: accepted?.network,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the ledger entry for a paid request once its response has finished.
+ * The settlement response header is only present when the payment settled.
+ */
+export function paidRequestEntry(request: {
+  route: string;
+  paymentHeader: string;
+  paymentResponseHeader?: string;
+  verified: boolean;
+  status: number;
+  latencyMs: number;
+  error?: string;
+}): LedgerEntry {
+  const payment = decodePayment(request.paymentHeader);
+  let settlement: { transaction?: string; payer?: string; network?: string } | undefined;
+  try {
+    settlement = request.paymentResponseHeader ? decodePaymentResponseHeader(request.paymentResponseHeader) : undefined;
+  } catch {
+    settlement = undefined;
+  }
+  
+  let outcome: LedgerOutcome;
+  if (!request.verified) {
+    outcome = 'rejected';
+  } else if (request.status === 402) {
+    outcome = 'settlement_failed';
+  } else if (request.status >= 400) {
+    outcome = 'voided';
+  } else {
+    outcome = 'settled';
+  }
+  
+  return {
+    timestamp: new Date().toISOString(),
+    route: request.route,
+    payer: settlement?.payer?.toLowerCase() || payment?.payer,
+    amount: payment?.amount,
+    asset: payment?.asset,
+    // Payment assets are USD stablecoins
+    priceUsd: payment?.amount ? Number(payment.amount) / 10 ** assetDecimals(payment.network, payment.asset) : undefined,
+    network: settlement?.network || payment?.network,
+    transaction: settlement?.transaction || undefined,
+    latencyMs: request.latencyMs,
+    status: request.status,
+    outcome,
+    error: outcome === 'settled' ? undefined : request.error,
+  };
+}
+
+/**
+ * Build the ledger entry for a request paid from prepaid credits. The money
+ * was taken when the credits were bought, so these entries count as calls
+ * (and toward volume tiers) but not as revenue.
+ */
+export function creditRequestEntry(request: {
+  route: string;
+  payer?: string;
+  price: `$${string}`;
+  status: number;
+  latencyMs: number;
+  error?: string;
+}): LedgerEntry {
+  const outcome: LedgerOutcome = request.status >= 400 ? 'voided' : 'settled';
+  return {
+    timestamp: new Date().toISOString(),
+    route: request.route,
+    payer: request.payer?.toLowerCase(),
+    priceUsd: parseFloat(request.price.replace('$', '')),
+    latencyMs: request.latencyMs,
+    status: request.status,
+    outcome,
+    error: outcome === 'settled' ? undefined : request.error,
+    paidWith: 'credits',
+  };
+}
+
+// =============================================================================
+// Aggregates
+// =============================================================================
+
+interface OutcomeCounts {
+  calls: number;
+  settled: number;
+  voided: number;
+  settlementFailed: number;
+  rejected: number;
+  revenueUsd: number;
+}
+
+type SkillCounts = OutcomeCounts & { latencyTotal: number };
+type PayerCounts = { settled: number; revenueUsd: number };
+
+// Entries aren't kept: each one is folded into the counts for its UTC hour,
+// which is as fine-grained as reports and volume windows get
+interface HourlyCounts {
+  totals: OutcomeCounts;
+  bySkill: Map<string, SkillCounts>;
+  byPayer: Map<string, PayerCounts>;     // Settled calls only, paid either way
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Long enough for the longest revenue report and volume window (365 days)
+const RETENTION_MS = 366 * 24 * HOUR_MS;
+
+const hours = new Map<number, HourlyCounts>();
+
+// Credit-paid calls spend revenue already counted when the credits were bought
+const revenueOf = (entry: LedgerEntry) => entry.paidWith === 'credits' ? 0 : entry.priceUsd || 0;
+
+function emptyCounts(): OutcomeCounts {
+  return { calls: 0, settled: 0, voided: 0, settlementFailed: 0, rejected: 0, revenueUsd: 0 };
+}
+
+function count(counts: OutcomeCounts, entry: LedgerEntry): void {
+  counts.calls++;
+  if (entry.outcome === 'settled') {
+    counts.settled++;
+    counts.revenueUsd += revenueOf(entry);
+  } else if (entry.outcome === 'voided') {
+    counts.voided++;
+  } else if (entry.outcome === 'settlement_failed') {
+    counts.settlementFailed++;
+  } else {
+    counts.rejected++;
+  }
+}
+
+const hourOf = (time: number) => Math.floor(time / HOUR_MS) * HOUR_MS;
+
+function index(entry: LedgerEntry): void {
+  const hour = hourOf(Date.parse(entry.timestamp));
+  const cutoff = Date.now() - RETENTION_MS;
+  if (Number.isNaN(hour) || hour < hourOf(cutoff)) return;
+  
+  let counts = hours.get(hour);
+  if (!counts) {
+    counts = { totals: emptyCounts(), bySkill: new Map(), byPayer: new Map() };
+    hours.set(hour, counts);
+    for (const old of hours.keys()) {
+      if (old < hourOf(cutoff)) hours.delete(old);
+    }
+  }
+  
+  count(counts.totals, entry);
+  const skill = counts.bySkill.get(entry.route) || { ...emptyCounts(), latencyTotal: 0 };
+  count(skill, entry);
+  skill.latencyTotal += entry.latencyMs;
+  counts.bySkill.set(entry.route, skill);
+  
+  if (entry.outcome === 'settled' && entry.payer) {
+    const payer = entry.payer.toLowerCase();
+    const stats = counts.byPayer.get(payer) || { settled: 0, revenueUsd: 0 };
+    stats.settled++;
+    stats.revenueUsd += revenueOf(entry);
+    counts.byPayer.set(payer, stats);
+  }
+}
+
+// The ledger file is append-only JSON Lines (one entry per line). On startup
+// it is streamed through index() a line at a time.
+if (config.ledger.filePath && existsSync(config.ledger.filePath)) {
+  const lines = createInterface({ input: createReadStream(config.ledger.filePath), crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line) continue;
+    try {
+      index(JSON.parse(line));
+    } catch {
+      console.error(`Skipping malformed ledger line ${lineNumber} in ${config.ledger.filePath}`);
+    }
+  }
+}
+
+// Appends are chained so entries land in the file in the order they happened
+let writeQueue: Promise<void> = Promise.resolve();
+
+export function recordEntry(entry: LedgerEntry): void {
+  index(entry);
+  const filePath = config.ledger.filePath;
+  if (!filePath) return;
+  writeQueue = writeQueue
+    .then(() => appendFile(filePath, JSON.stringify(entry) + '\n'))
+    .catch(error => console.error('Failed to write ledger entry:', error.message));
+}
+
+/**
+ * Settled calls by `payer` (x402 or credits), counted in whole hours from the
+ * start of the hour `since` falls in.
+ */
+export function settledCallCount(payer: string, since: number): number {
+  const key = payer.toLowerCase();
+  let total = 0;
+  for (const [hour, counts] of hours) {
+    if (hour >= hourOf(since)) total += counts.byPayer.get(key)?.settled || 0;
+  }
+  return total;
+}
+
+// =============================================================================
+// Revenue Reporting
+// =============================================================================
+
+export interface RevenueReport {
+  since: string;
+  totals: OutcomeCounts & { failureRate: number };
+  bySkill: (OutcomeCounts & { route: string; failureRate: number; avgLatencyMs: number })[];
+  byDay: { date: string; settled: number; revenueUsd: number }[];
+  topPayers: { payer: string; settled: number; revenueUsd: number }[];
+}
+
+function add<T extends { [K in keyof T]: number }>(into: T, from: T): void {
+  for (const key of Object.keys(from) as (keyof T)[]) {
+    into[key] = (into[key] + from[key]) as T[keyof T];
+  }
+}
+
+// Share of verified payments that were not settled. Rejected payments never
+// reached the endpoint, so they don't count against a skill.
+function failureRate(counts: OutcomeCounts): number {
+  const verified = counts.settled + counts.voided + counts.settlementFailed;
+  return verified > 0 ? Math.round(((counts.voided + counts.settlementFailed) / verified) * 1000) / 10 : 0;
+}
+
+const roundUsd = (value: number) => parseFloat(value.toFixed(6));
+
+/**
+ * Summarize the ledger from the start of the hour `since` falls in: revenue
+ * and failure rates per skill, revenue per UTC day, and the top payers by
+ * revenue.
+ */
+export function revenueReport(since: Date, topPayerCount = 10): RevenueReport {
+  const totals = emptyCounts();
+  const bySkill = new Map<string, SkillCounts>();
+  const byDay = new Map<string, { settled: number; revenueUsd: number }>();
+  const byPayer = new Map<string, PayerCounts>();
+  
+  for (const [hour, counts] of hours) {
+    if (hour < hourOf(since.getTime())) continue;
+    
+    add(totals, counts.totals);
+    for (const [route, skill] of counts.bySkill) {
+      const merged = bySkill.get(route) || { ...emptyCounts(), latencyTotal: 0 };
+      add(merged, skill);
+      bySkill.set(route, merged);
+    }
+    
+    const date = new Date(hour).toISOString().slice(0, 10);
+    const day = byDay.get(date) || { settled: 0, revenueUsd: 0 };
+    day.settled += counts.totals.settled;
+    day.revenueUsd += counts.totals.revenueUsd;
+    byDay.set(date, day);
+    
+    for (const [payer, stats] of counts.byPayer) {
+      const merged = byPayer.get(payer) || { settled: 0, revenueUsd: 0 };
+      add(merged, stats);
+      byPayer.set(payer, merged);
+    }
+  }
+  
+  return {
+    since: new Date(hourOf(since.getTime())).toISOString(),
+    totals: { ...totals, revenueUsd: roundUsd(totals.revenueUsd), failureRate: failureRate(totals) },
+    bySkill: [...bySkill.entries()]
+      .map(([route, { latencyTotal, ...counts }]) => ({
+        route,
+        ...counts,
+        revenueUsd: roundUsd(counts.revenueUsd),
+        failureRate: failureRate(counts),
+        avgLatencyMs: Math.round(latencyTotal / counts.calls),
+      }))
+      .sort((a, b) => b.revenueUsd - a.revenueUsd),
+    byDay: [...byDay.entries()]
+      .filter(([, day]) => day.settled > 0)
+      .map(([date, day]) => ({ date, settled: day.settled, revenueUsd: roundUsd(day.revenueUsd) }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    topPayers: [...byPayer.entries()]
+      .map(([payer, stats]) => ({ payer, settled: stats.settled, revenueUsd: roundUsd(stats.revenueUsd) }))
+      .sort((a, b) => b.revenueUsd - a.revenueUsd)
+      .slice(0, topPayerCount),
+  };
+}
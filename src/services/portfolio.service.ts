@@ -1,6 +1,11 @@
 import axios from 'axios';
+import { cached } from './cache.service.js';
+import { usdRate, type VsCurrency } from './currency.service.js';
+import { calculatePortfolioRisk, type PortfolioRisk } from './risk.service.js';
+import { InvalidAddressError, UnsupportedChainError, UpstreamUnavailableError, upstreamError } from '../errors.js';
 
 export interface TokenHolding {
+  chain: string;
   symbol: string;
   name: string;
   contractAddress: string;
@@ -9,22 +14,43 @@ export interface TokenHolding {
   decimals: number;
   priceUsd: number;
   valueUsd: number;
+  price: number;  // In the analysis' vsCurrency
+  value: number;  // In the analysis' vsCurrency
   percentage: number;
 }
 
+export interface ChainBreakdown {
+  chain: string;
+  totalValueUsd: number;
+  totalValue: number; // In vsCurrency
+  tokenCount: number;
+  percentage: number; // Share of the whole portfolio
+  nativeTokenPercentage: number; // Within this chain
+  stablecoinPercentage: number;  // Within this chain
+}
+
 export interface PortfolioAnalysis {
   walletAddress: string;
-  chain: string;
+  chain: string; // Requested chain, or comma-separated list for multi-chain analyses
+  chains: ChainBreakdown[];
+  vsCurrency: VsCurrency; // Currency of the price and value fields without a Usd suffix
   totalValueUsd: number;
+  totalValue: number;
   tokenCount: number;
   holdings: TokenHolding[];
   topHolding: TokenHolding | null;
   diversificationScore: number; // 0-100, higher = more diversified
   nativeTokenPercentage: number;
   stablecoinPercentage: number;
+  risk?: PortfolioRisk; // Only with includeRisk
   analysisTimestamp: string;
 }
 
+export interface PortfolioOptions {
+  includeRisk?: boolean; // Fetch price history and compute risk metrics
+  vsCurrency?: VsCurrency; // Defaults to usd
+}
+
 // Stablecoin addresses by chain
 const STABLECOINS: Record<string, string[]> = {
   'ethereum': [
@@ -47,114 +73,198 @@ const NATIVE_TOKENS: Record<string, string> = {
   'ethereum': 'ETH',
   'base': 'ETH',
   'arbitrum': 'ETH',
+  'optimism': 'ETH',
   'polygon': 'MATIC',
   'avalanche': 'AVAX',
   'bsc': 'BNB',
   'solana': 'SOL',
 };
 
+const STABLECOIN_SYMBOLS = ['USDC', 'USDT', 'DAI', 'BUSD', 'FRAX'];
+
+const NATIVE_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Chain names mapped to Ankr blockchain IDs
+const ANKR_CHAINS: Record<string, string> = {
+  'ethereum': 'eth',
+  'base': 'base',
+  'arbitrum': 'arbitrum',
+  'polygon': 'polygon',
+  'optimism': 'optimism',
+  'avalanche': 'avalanche',
+  'bsc': 'bsc',
+};
+
+export const PORTFOLIO_CHAINS = Object.keys(ANKR_CHAINS);
+
+/**
+ * Parse a chain parameter: a single chain, a comma-separated list, or `all`.
+ * Unknown names are returned separately so callers can reject them.
+ */
+export function parseChainList(chain: string): { chains: string[]; unknown: string[] } {
+  const requested = chain.toLowerCase() === 'all'
+    ? PORTFOLIO_CHAINS
+    : [...new Set(chain.split(',').map(c => c.trim().toLowerCase()).filter(Boolean))];
+  return {
+    chains: requested.filter(c => PORTFOLIO_CHAINS.includes(c)),
+    unknown: requested.filter(c => !PORTFOLIO_CHAINS.includes(c)),
+  };
+}
+
 export async function analyzePortfolio(
   walletAddress: string, 
-  chain: string = 'base'
+  chain: string = 'base',
+  options: PortfolioOptions = {}
 ): Promise<PortfolioAnalysis> {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+    throw new InvalidAddressError();
+  }
+  
+  const { chains, unknown } = parseChainList(chain);
+  if (unknown.length > 0 || chains.length === 0) {
+    throw new UnsupportedChainError(
+      `Unsupported chain: ${unknown.join(', ') || chain}. Use one or more of: ${PORTFOLIO_CHAINS.join(', ')}, or "all"`
+    );
+  }
+  
   // Use Alchemy or similar API for token balances
   // For now, using a free alternative approach
-  const holdings = await getWalletTokens(walletAddress, chain);
+  const vsCurrency = options.vsCurrency || 'usd';
+  const [holdings, rate] = await Promise.all([getWalletTokens(walletAddress, chains), usdRate(vsCurrency)]);
   
   const totalValueUsd = holdings.reduce((sum, h) => sum + h.valueUsd, 0);
   
-  // Calculate percentages
+  // Calculate percentages and quote in vsCurrency
   const holdingsWithPercentage = holdings.map(h => ({
     ...h,
+    price: h.priceUsd * rate,
+    value: h.valueUsd * rate,
     percentage: totalValueUsd > 0 ? (h.valueUsd / totalValueUsd) * 100 : 0,
   }));
   
   // Sort by value
   holdingsWithPercentage.sort((a, b) => b.valueUsd - a.valueUsd);
   
-  // Calculate diversification score (using Herfindahl-Hirschman Index inverted)
-  const hhi = holdingsWithPercentage.reduce((sum, h) => sum + Math.pow(h.percentage, 2), 0);
+  // Calculate diversification score (using Herfindahl-Hirschman Index inverted).
+  // The same asset held on several chains counts as one position.
+  const valueBySymbol = new Map<string, number>();
+  for (const h of holdingsWithPercentage) {
+    const symbol = h.symbol.toUpperCase();
+    valueBySymbol.set(symbol, (valueBySymbol.get(symbol) || 0) + h.valueUsd);
+  }
+  const hhi = [...valueBySymbol.values()].reduce((sum, value) => 
+    sum + Math.pow(totalValueUsd > 0 ? (value / totalValueUsd) * 100 : 0, 2), 0);
   const diversificationScore = Math.min(100, Math.max(0, 100 - (hhi / 100)));
   
-  // Calculate stablecoin percentage
-  const chainStables = STABLECOINS[chain.toLowerCase()] || [];
+  // Native and stablecoin checks use each holding's own chain
   const stablecoinValue = holdingsWithPercentage
-    .filter(h => chainStables.includes(h.contractAddress.toLowerCase()) || 
-                 ['USDC', 'USDT', 'DAI', 'BUSD', 'FRAX'].includes(h.symbol.toUpperCase()))
+    .filter(isStablecoin)
     .reduce((sum, h) => sum + h.valueUsd, 0);
   const stablecoinPercentage = totalValueUsd > 0 ? (stablecoinValue / totalValueUsd) * 100 : 0;
   
-  // Calculate native token percentage
-  const nativeSymbol = NATIVE_TOKENS[chain.toLowerCase()] || 'ETH';
   const nativeValue = holdingsWithPercentage
-    .filter(h => h.symbol.toUpperCase() === nativeSymbol)
+    .filter(isNativeToken)
     .reduce((sum, h) => sum + h.valueUsd, 0);
   const nativeTokenPercentage = totalValueUsd > 0 ? (nativeValue / totalValueUsd) * 100 : 0;
   
+  // Per-chain breakdown
+  const chainBreakdown = chains.map(c => {
+    const chainHoldings = holdingsWithPercentage.filter(h => h.chain === c);
+    const chainValue = chainHoldings.reduce((sum, h) => sum + h.valueUsd, 0);
+    const share = (value: number) => chainValue > 0 ? (value / chainValue) * 100 : 0;
+    return {
+      chain: c,
+      totalValueUsd: chainValue,
+      totalValue: chainValue * rate,
+      tokenCount: chainHoldings.length,
+      percentage: totalValueUsd > 0 ? (chainValue / totalValueUsd) * 100 : 0,
+      nativeTokenPercentage: share(chainHoldings.filter(isNativeToken).reduce((sum, h) => sum + h.valueUsd, 0)),
+      stablecoinPercentage: share(chainHoldings.filter(isStablecoin).reduce((sum, h) => sum + h.valueUsd, 0)),
+    };
+  }).sort((a, b) => b.totalValueUsd - a.totalValueUsd);
+  
+  const risk = options.includeRisk && totalValueUsd > 0
+    ? await calculatePortfolioRisk(holdingsWithPercentage, totalValueUsd, rate)
+    : undefined;
+  
   return {
     walletAddress,
-    chain,
+    chain: chains.join(','),
+    chains: chainBreakdown,
+    vsCurrency,
     totalValueUsd,
+    totalValue: totalValueUsd * rate,
     tokenCount: holdingsWithPercentage.length,
     holdings: holdingsWithPercentage,
     topHolding: holdingsWithPercentage[0] || null,
     diversificationScore,
     nativeTokenPercentage,
     stablecoinPercentage,
+    risk,
     analysisTimestamp: new Date().toISOString(),
   };
 }
 
-async function getWalletTokens(walletAddress: string, chain: string): Promise<TokenHolding[]> {
+export function isStablecoin(holding: TokenHolding): boolean {
+  const chainStables = STABLECOINS[holding.chain] || [];
+  return chainStables.includes(holding.contractAddress.toLowerCase()) || 
+    STABLECOIN_SYMBOLS.includes(holding.symbol.toUpperCase());
+}
+
+export function isNativeToken(holding: TokenHolding): boolean {
+  return holding.contractAddress === NATIVE_ADDRESS || 
+    holding.symbol.toUpperCase() === (NATIVE_TOKENS[holding.chain] || 'ETH');
+}
+
+async function getWalletTokens(walletAddress: string, chains: string[]): Promise<TokenHolding[]> {
   // Using DeBank-like approach via public APIs
   // In production, use Alchemy, Moralis, or similar
   
-  const chainToId: Record<string, string> = {
-    'ethereum': 'eth',
-    'base': 'base',
-    'arbitrum': 'arb',
-    'polygon': 'matic',
-    'optimism': 'op',
-    'avalanche': 'avax',
-    'bsc': 'bsc',
-  };
-  
-  const chainId = chainToId[chain.toLowerCase()] || chain;
+  const blockchains = chains.map(c => ANKR_CHAINS[c]).sort();
+  const chainByAnkrId = Object.fromEntries(Object.entries(ANKR_CHAINS).map(([name, id]) => [id, name]));
   
   try {
     // Try using Ankr's free token balance API
-    const response = await axios.post(
-      'https://rpc.ankr.com/multichain',
-      {
-        jsonrpc: '2.0',
-        method: 'ankr_getAccountBalance',
-        params: {
-          blockchain: [chainId],
-          walletAddress: walletAddress,
+    return await cached('wallet', `${blockchains.join(',')}:${walletAddress.toLowerCase()}`, async () => {
+      const response = await axios.post(
+        'https://rpc.ankr.com/multichain',
+        {
+          jsonrpc: '2.0',
+          method: 'ankr_getAccountBalance',
+          params: {
+            blockchain: blockchains,
+            walletAddress: walletAddress,
+          },
+          id: 1,
         },
-        id: 1,
-      },
-      { timeout: 15000 }
-    );
-    
-    const assets = response.data.result?.assets || [];
-    
-    return assets.map((asset: any) => ({
-      symbol: asset.tokenSymbol || 'UNKNOWN',
-      name: asset.tokenName || asset.tokenSymbol || 'Unknown Token',
-      contractAddress: asset.contractAddress || '0x0000000000000000000000000000000000000000',
-      balance: asset.balance || '0',
-      balanceFormatted: parseFloat(asset.balanceRawInteger || '0') / Math.pow(10, asset.tokenDecimals || 18),
-      decimals: asset.tokenDecimals || 18,
-      priceUsd: parseFloat(asset.tokenPrice || '0'),
-      valueUsd: parseFloat(asset.balanceUsd || '0'),
-      percentage: 0, // Will be calculated later
-    }));
+        { timeout: 15000 }
+      );
+      
+      // JSON-RPC errors arrive with HTTP 200
+      if (response.data.error) {
+        throw new UpstreamUnavailableError(`Ankr returned an error: ${response.data.error.message}`);
+      }
+      
+      const assets = response.data.result?.assets || [];
+      
+      return assets.map((asset: any) => ({
+        chain: chainByAnkrId[asset.blockchain] || asset.blockchain,
+        symbol: asset.tokenSymbol || 'UNKNOWN',
+        name: asset.tokenName || asset.tokenSymbol || 'Unknown Token',
+        contractAddress: asset.contractAddress || NATIVE_ADDRESS,
+        balance: asset.balance || '0',
+        balanceFormatted: parseFloat(asset.balanceRawInteger || '0') / Math.pow(10, asset.tokenDecimals || 18),
+        decimals: asset.tokenDecimals || 18,
+        priceUsd: parseFloat(asset.tokenPrice || '0'),
+        valueUsd: parseFloat(asset.balanceUsd || '0'),
+        price: 0, // Converted to vsCurrency later
+        value: 0,
+        percentage: 0, // Will be calculated later
+      }));
+    });
   } catch (error: any) {
-    // Fallback: return empty with error message
+    // Never report an unreadable wallet as an empty one
     console.error('Failed to fetch wallet tokens:', error.message);
-    
-    // Try a simpler approach using DexScreener for the wallet
-    return [];
+    throw upstreamError(error, 'Failed to fetch wallet balances from Ankr');
   }
 }
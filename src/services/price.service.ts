@@ -1,4 +1,18 @@
 import axios from 'axios';
+import { cached } from './cache.service.js';
+import {
+  AmbiguousSymbolError,
+  ApiError,
+  RateLimitedError,
+  TokenNotFoundError,
+  UpstreamUnavailableError,
+  ValidationError,
+  toApiError,
+  upstreamError,
+} from '../errors.js';
+import { convertFields, usdRate, type VsCurrency } from './currency.service.js';
+import { resolveCoinGeckoId } from './registry.service.js';
+import type { ErrorCode } from '../types.js';
 
 export interface TokenPrice {
   symbol: string;
@@ -14,155 +28,453 @@ export interface TokenPrice {
   athChangePercentage: number;
   lastUpdated: string;
   source: string;
+  vsCurrency: VsCurrency;       // Currency of every amount except liquidityUsd
+  // DEX pair data (DexScreener only)
+  liquidityUsd?: number;        // Across the pairs the price is averaged over
+  fdv?: number;
+  priceChangePercentage5m?: number;
+  priceChangePercentage1h?: number;
+  priceChangePercentage6h?: number;
+  txns24h?: { buys: number; sells: number };
+  dexId?: string;               // Of the most liquid pair
+  pairAddress?: string;
+  pairCount?: number;
 }
 
+// What price providers return: every amount in USD
+export type UsdTokenPrice = Omit<TokenPrice, 'vsCurrency'>;
+
+// TokenPrice amounts quoted in the requested currency
+const PRICE_AMOUNTS: (keyof TokenPrice)[] = ['price', 'priceChange24h', 'marketCap', 'volume24h', 'high24h', 'low24h', 'ath', 'fdv'];
+
 export interface TokenPriceRequest {
   symbol?: string;
   contractAddress?: string;
   chain?: string;
+  pairAddress?: string; // Price from this DEX pair only (with contractAddress and chain)
+}
+
+export interface BatchPriceResult {
+  request: TokenPriceRequest;
+  data?: TokenPrice;
+  error?: string;
+  code?: ErrorCode;
+}
+
+export interface PriceProvider {
+  name: string;
+  supports(request: TokenPriceRequest): boolean;
+  fetchPrice(request: TokenPriceRequest): Promise<UsdTokenPrice>;
 }
 
-// CoinGecko ID mappings for common tokens
-const COINGECKO_IDS: Record<string, string> = {
-  'BTC': 'bitcoin',
-  'ETH': 'ethereum',
-  'USDC': 'usd-coin',
-  'USDT': 'tether',
-  'SOL': 'solana',
-  'MATIC': 'matic-network',
-  'AVAX': 'avalanche-2',
-  'LINK': 'chainlink',
-  'UNI': 'uniswap',
-  'AAVE': 'aave',
-  'ARB': 'arbitrum',
-  'OP': 'optimism',
-  'BASE': 'base',
-  'DOGE': 'dogecoin',
-  'SHIB': 'shiba-inu',
-  'PEPE': 'pepe',
-  'WIF': 'dogwifhat',
-  'BONK': 'bonk',
+// Chains accepted with a contract address, as listed in route schemas
+export const CHAINS = ['ethereum', 'base', 'arbitrum', 'polygon', 'optimism', 'avalanche', 'bsc', 'solana'];
+
+// Map chain names to DexScreener chain IDs
+const DEXSCREENER_CHAINS: Record<string, string> = {
+  'ethereum': 'ethereum',
+  'eth': 'ethereum',
+  'base': 'base',
+  'arbitrum': 'arbitrum',
+  'arb': 'arbitrum',
+  'optimism': 'optimism',
+  'op': 'optimism',
+  'polygon': 'polygon',
+  'matic': 'polygon',
+  'solana': 'solana',
+  'sol': 'solana',
+  'bsc': 'bsc',
+  'bnb': 'bsc',
+  'avalanche': 'avalanche',
+  'avax': 'avalanche',
+};
+
+// Map DexScreener chain IDs to GeckoTerminal network IDs
+const GECKOTERMINAL_NETWORKS: Record<string, string> = {
+  'ethereum': 'eth',
+  'base': 'base',
+  'arbitrum': 'arbitrum',
+  'optimism': 'optimism',
+  'polygon': 'polygon_pos',
+  'solana': 'solana',
+  'bsc': 'bsc',
+  'avalanche': 'avax',
 };
 
-export async function getTokenPrice(request: TokenPriceRequest): Promise<TokenPrice> {
-  const { symbol, contractAddress, chain } = request;
+export const dexScreenerChain = (chain: string): string =>
+  DEXSCREENER_CHAINS[chain.toLowerCase()] || chain.toLowerCase();
+
+export const geckoTerminalNetwork = (chain: string): string =>
+  GECKOTERMINAL_NETWORKS[dexScreenerChain(chain)] || dexScreenerChain(chain);
+
+const BATCH_CONCURRENCY = 5;
+
+const hasContract = (request: TokenPriceRequest) => !!(request.contractAddress && request.chain);
+const hasSymbol = (request: TokenPriceRequest) => !!request.symbol;
+
+// A missing or unparseable price means the provider has no price, not a $0
+// quote, so the next provider gets a turn
+function positivePrice(value: unknown, notFound: string): number {
+  const price = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new TokenNotFoundError(notFound);
+  }
+  return price;
+}
+
+// Providers in priority order. Contract-address sources come first because a
+// contract address is more specific than a ticker when both are supplied.
+const priceProviders: PriceProvider[] = [
+  {
+    name: 'dexscreener',
+    supports: hasContract,
+    fetchPrice: (r) => getTokenPriceFromDexScreener(r.contractAddress!, r.chain!, r.pairAddress),
+  },
+  {
+    name: 'geckoterminal',
+    // Token-level prices can't honour a pinned pair
+    supports: (r) => hasContract(r) && !r.pairAddress,
+    fetchPrice: (r) => getTokenPriceFromGeckoTerminal(r.contractAddress!, r.chain!),
+  },
+  {
+    name: 'coingecko',
+    supports: hasSymbol,
+    fetchPrice: (r) => getTokenPriceFromCoinGecko(r.symbol!, r.chain),
+  },
+  {
+    name: 'binance',
+    supports: hasSymbol,
+    fetchPrice: (r) => getTokenPriceFromBinance(r.symbol!),
+  },
+];
+
+/**
+ * Register an additional price provider. Providers are tried in order, so
+ * `priority` is the index to insert at (defaults to the end of the list).
+ */
+export function registerPriceProvider(provider: PriceProvider, priority: number = priceProviders.length): void {
+  const existing = priceProviders.findIndex(p => p.name === provider.name);
+  if (existing !== -1) {
+    priceProviders.splice(existing, 1);
+  }
+  priceProviders.splice(Math.max(0, Math.min(priority, priceProviders.length)), 0, provider);
+}
+
+export async function getTokenPrice(request: TokenPriceRequest, vsCurrency: VsCurrency = 'usd'): Promise<TokenPrice> {
+  const candidates = priceProviders.filter(p => p.supports(request));
   
-  // Try DexScreener for contract addresses (better for newer/smaller tokens)
-  if (contractAddress && chain) {
-    return getTokenPriceFromDexScreener(contractAddress, chain);
+  if (candidates.length === 0) {
+    throw new ValidationError('Either symbol or contractAddress+chain must be provided');
+  }
+  if (request.pairAddress && !hasContract(request)) {
+    throw new ValidationError('pairAddress requires contractAddress and chain');
   }
   
-  // Use CoinGecko for symbols
-  if (symbol) {
-    return getTokenPriceFromCoinGecko(symbol);
+  // Fall through to the next provider on any failure (rate limits, 5xx,
+  // timeouts, unknown token) so one flaky upstream doesn't fail a paid call
+  const failures: ApiError[] = [];
+  for (const provider of candidates) {
+    let price: UsdTokenPrice;
+    try {
+      price = await provider.fetchPrice(request);
+    } catch (error: any) {
+      // Another provider would only be guessing which token was meant
+      if (error instanceof AmbiguousSymbolError) throw error;
+      console.warn(`Price provider '${provider.name}' failed:`, error.message);
+      failures.push(toApiError(error));
+      continue;
+    }
+    return convertFields({ ...price, vsCurrency }, PRICE_AMOUNTS, await usdRate(vsCurrency));
   }
   
-  throw new Error('Either symbol or contractAddress+chain must be provided');
+  // Only report "not found" / "rate limited" if every provider agreed; a mix
+  // means the token may exist on a provider that was unavailable
+  const message = `All price providers failed: ${failures.map(f => f.message).join('; ')}`;
+  if (failures.every(f => f.code === 'TOKEN_NOT_FOUND')) {
+    throw new TokenNotFoundError(message);
+  }
+  if (failures.every(f => f.code === 'RATE_LIMITED')) {
+    throw new RateLimitedError(message);
+  }
+  throw new UpstreamUnavailableError(message);
 }
 
-async function getTokenPriceFromCoinGecko(symbol: string): Promise<TokenPrice> {
-  const upperSymbol = symbol.toUpperCase();
-  const coinId = COINGECKO_IDS[upperSymbol] || symbol.toLowerCase();
+/**
+ * Parse a batch request body of the form `{ tokens: [...] }`, where each item
+ * is a symbol string or a `{ symbol }` / `{ contractAddress, chain, pairAddress? }`
+ * object.
+ * Returns null if the body isn't a non-empty token list.
+ */
+export function parseBatchPriceRequest(body: unknown): TokenPriceRequest[] | null {
+  const tokens = (body as { tokens?: unknown } | undefined)?.tokens;
+  if (!Array.isArray(tokens) || tokens.length === 0) {
+    return null;
+  }
   
-  try {
-    const response = await axios.get(
-      `https://api.coingecko.com/api/v3/coins/${coinId}`,
-      {
-        params: {
-          localization: false,
-          tickers: false,
-          market_data: true,
-          community_data: false,
-          developer_data: false,
-        },
-        timeout: 10000,
+  return tokens.map((item: any) => typeof item === 'string'
+    ? { symbol: item }
+    : {
+        symbol: typeof item?.symbol === 'string' ? item.symbol : undefined,
+        contractAddress: typeof item?.contractAddress === 'string' ? item.contractAddress : undefined,
+        chain: typeof item?.chain === 'string' ? item.chain : undefined,
+        pairAddress: typeof item?.pairAddress === 'string' ? item.pairAddress : undefined,
+      });
+}
+
+export async function getTokenPrices(requests: TokenPriceRequest[], vsCurrency: VsCurrency = 'usd'): Promise<BatchPriceResult[]> {
+  const results: BatchPriceResult[] = [];
+  
+  // Fetch in small chunks to stay under upstream rate limits
+  for (let i = 0; i < requests.length; i += BATCH_CONCURRENCY) {
+    const chunk = requests.slice(i, i + BATCH_CONCURRENCY);
+    const settled = await Promise.allSettled(chunk.map(r => getTokenPrice(r, vsCurrency)));
+    settled.forEach((outcome, j) => {
+      if (outcome.status === 'fulfilled') {
+        results.push({ request: chunk[j], data: outcome.value });
+      } else {
+        const error = toApiError(outcome.reason);
+        results.push({ request: chunk[j], error: error.message, code: error.code });
       }
-    );
-    
-    const data = response.data;
-    const marketData = data.market_data;
-    
-    return {
-      symbol: data.symbol.toUpperCase(),
-      name: data.name,
-      price: marketData.current_price.usd,
-      priceChange24h: marketData.price_change_24h || 0,
-      priceChangePercentage24h: marketData.price_change_percentage_24h || 0,
-      marketCap: marketData.market_cap.usd || 0,
-      volume24h: marketData.total_volume.usd || 0,
-      high24h: marketData.high_24h.usd || 0,
-      low24h: marketData.low_24h.usd || 0,
-      ath: marketData.ath.usd || 0,
-      athChangePercentage: marketData.ath_change_percentage.usd || 0,
-      lastUpdated: marketData.last_updated,
-      source: 'coingecko',
-    };
+    });
+  }
+  
+  return results;
+}
+
+async function getTokenPriceFromCoinGecko(symbol: string, chain?: string): Promise<UsdTokenPrice> {
+  const coinId = resolveCoinGeckoId(symbol, chain);
+  
+  try {
+    return await cached('price', `coingecko:${coinId}`, () => fetchCoinGeckoPrice(coinId));
   } catch (error: any) {
     if (error.response?.status === 404) {
-      throw new Error(`Token '${symbol}' not found on CoinGecko`);
+      throw new TokenNotFoundError(`Token '${symbol}' not found on CoinGecko`);
     }
-    throw new Error(`Failed to fetch price from CoinGecko: ${error.message}`);
-  }
-}
-
-async function getTokenPriceFromDexScreener(contractAddress: string, chain: string): Promise<TokenPrice> {
-  // Map chain names to DexScreener chain IDs
-  const chainMap: Record<string, string> = {
-    'ethereum': 'ethereum',
-    'eth': 'ethereum',
-    'base': 'base',
-    'arbitrum': 'arbitrum',
-    'arb': 'arbitrum',
-    'optimism': 'optimism',
-    'op': 'optimism',
-    'polygon': 'polygon',
-    'matic': 'polygon',
-    'solana': 'solana',
-    'sol': 'solana',
-    'bsc': 'bsc',
-    'bnb': 'bsc',
-    'avalanche': 'avalanche',
-    'avax': 'avalanche',
+    throw upstreamError(error, 'Failed to fetch price from CoinGecko');
+  }
+}
+
+async function fetchCoinGeckoPrice(coinId: string): Promise<UsdTokenPrice> {
+  const response = await axios.get(
+    `https://api.coingecko.com/api/v3/coins/${coinId}`,
+    {
+      params: {
+        localization: false,
+        tickers: false,
+        market_data: true,
+        community_data: false,
+        developer_data: false,
+      },
+      timeout: 10000,
+    }
+  );
+  
+  const data = response.data;
+  const marketData = data.market_data;
+  
+  return {
+    symbol: data.symbol.toUpperCase(),
+    name: data.name,
+    price: positivePrice(marketData.current_price?.usd, `No USD price for '${coinId}' on CoinGecko`),
+    priceChange24h: marketData.price_change_24h || 0,
+    priceChangePercentage24h: marketData.price_change_percentage_24h || 0,
+    marketCap: marketData.market_cap.usd || 0,
+    volume24h: marketData.total_volume.usd || 0,
+    high24h: marketData.high_24h.usd || 0,
+    low24h: marketData.low_24h.usd || 0,
+    ath: marketData.ath.usd || 0,
+    athChangePercentage: marketData.ath_change_percentage.usd || 0,
+    lastUpdated: marketData.last_updated,
+    source: 'coingecko',
   };
+}
+
+/**
+ * Every DexScreener pair trading `contractAddress`, on any chain.
+ */
+export async function fetchDexScreenerPairs(contractAddress: string): Promise<any[]> {
+  return cached('price', `dexscreener:pairs:${contractAddress.toLowerCase()}`, async () => {
+    const response = await axios.get(
+      `https://api.dexscreener.com/latest/dex/tokens/${contractAddress}`,
+      { timeout: 10000 }
+    );
+    return response.data.pairs || [];
+  });
+}
+
+// A pair's USD price for `address`, whichever side of the pair it is on
+function pairPriceUsd(pair: any, address: string): number {
+  const priceUsd = parseFloat(pair.priceUsd);
+  if (pair.baseToken?.address?.toLowerCase() === address) {
+    return priceUsd;
+  }
+  // priceNative is the base token's price in quote tokens
+  return priceUsd / parseFloat(pair.priceNative);
+}
+
+/**
+ * 24h buys and sells of `address` across DexScreener pairs. Pair counts are
+ * from the base token's side, so they swap where the token is the quote.
+ */
+export function pairTxns24h(pairs: any[], address: string): { buys: number; sells: number } {
+  const txns = { buys: 0, sells: 0 };
+  for (const pair of pairs) {
+    const { buys = 0, sells = 0 } = pair.txns?.h24 || {};
+    const isBase = pair.baseToken?.address?.toLowerCase() === address.toLowerCase();
+    txns.buys += isBase ? buys : sells;
+    txns.sells += isBase ? sells : buys;
+  }
+  return txns;
+}
+
+/**
+ * Price a token from its DexScreener pairs on `chain`: the liquidity-weighted
+ * average across pairs, or one pinned pair. Changes, FDV and market cap are
+ * DexScreener's figures for the most liquid pair the token is the base of.
+ */
+async function getTokenPriceFromDexScreener(contractAddress: string, chain: string, pairAddress?: string): Promise<UsdTokenPrice> {
+  const dexChain = dexScreenerChain(chain);
+  const address = contractAddress.toLowerCase();
+  
+  let pairs: any[];
+  try {
+    pairs = await fetchDexScreenerPairs(contractAddress);
+  } catch (error) {
+    throw upstreamError(error, 'Failed to fetch price from DexScreener');
+  }
+  if (pairs.length === 0) {
+    throw new TokenNotFoundError(`No trading pairs found for contract ${contractAddress}`);
+  }
+  
+  // A pair on another chain would price a different token
+  let chainPairs = pairs.filter(p => p.chainId === dexChain);
+  if (chainPairs.length === 0) {
+    const chains = [...new Set(pairs.map(p => p.chainId))];
+    throw new TokenNotFoundError(`No trading pairs found for contract ${contractAddress} on ${chain} (it trades on ${chains.join(', ')})`);
+  }
+  if (pairAddress) {
+    chainPairs = chainPairs.filter(p => p.pairAddress?.toLowerCase() === pairAddress.toLowerCase());
+    if (chainPairs.length === 0) {
+      throw new TokenNotFoundError(`Pair ${pairAddress} does not trade contract ${contractAddress} on ${chain}`);
+    }
+  }
+  
+  const priced = chainPairs
+    .map(pair => ({ pair, price: pairPriceUsd(pair, address), liquidity: pair.liquidity?.usd || 0 }))
+    .filter(p => Number.isFinite(p.price) && p.price > 0);
+  if (priced.length === 0) {
+    throw new TokenNotFoundError(`No priced trading pairs found for contract ${contractAddress} on ${chain}`);
+  }
+  
+  const mostLiquid = <T extends { liquidity: number }>(a: T, b: T) => a.liquidity >= b.liquidity ? a : b;
+  const main = priced.reduce(mostLiquid);
+  const liquidityUsd = priced.reduce((sum, p) => sum + p.liquidity, 0);
+  const price = liquidityUsd > 0
+    ? priced.reduce((sum, p) => sum + p.price * p.liquidity, 0) / liquidityUsd
+    : main.price;
   
-  const dexChain = chainMap[chain.toLowerCase()] || chain.toLowerCase();
+  // DexScreener's changes and valuations describe a pair's base token
+  const asBase = priced.filter(p => p.pair.baseToken?.address?.toLowerCase() === address);
+  const reference = asBase.length > 0 ? asBase.reduce(mostLiquid).pair : undefined;
+  const priceChange = reference?.priceChange || {};
+  const token = main.pair.baseToken?.address?.toLowerCase() === address ? main.pair.baseToken : main.pair.quoteToken;
+  
+  return {
+    symbol: token.symbol,
+    name: token.name,
+    price,
+    priceChange24h: (price * (priceChange.h24 || 0) / 100) || 0,
+    priceChangePercentage24h: priceChange.h24 || 0,
+    marketCap: reference?.marketCap || 0,
+    volume24h: priced.reduce((sum, p) => sum + (p.pair.volume?.h24 || 0), 0),
+    high24h: 0, // Not available from DexScreener
+    low24h: 0,  // Not available from DexScreener
+    ath: 0,     // Not available from DexScreener
+    athChangePercentage: 0,
+    lastUpdated: new Date().toISOString(),
+    source: 'dexscreener',
+    liquidityUsd,
+    fdv: reference?.fdv,
+    priceChangePercentage5m: priceChange.m5,
+    priceChangePercentage1h: priceChange.h1,
+    priceChangePercentage6h: priceChange.h6,
+    txns24h: pairTxns24h(priced.map(p => p.pair), address),
+    dexId: main.pair.dexId,
+    pairAddress: main.pair.pairAddress,
+    pairCount: priced.length,
+  };
+}
+
+async function getTokenPriceFromGeckoTerminal(contractAddress: string, chain: string): Promise<UsdTokenPrice> {
+  const network = geckoTerminalNetwork(chain);
   
   try {
     const response = await axios.get(
-      `https://api.dexscreener.com/latest/dex/tokens/${contractAddress}`,
+      `https://api.geckoterminal.com/api/v2/networks/${network}/tokens/${contractAddress}`,
       { timeout: 10000 }
     );
     
-    const pairs = response.data.pairs;
-    if (!pairs || pairs.length === 0) {
-      throw new Error(`No trading pairs found for contract ${contractAddress}`);
+    const attributes = response.data.data?.attributes;
+    if (!attributes) {
+      throw new TokenNotFoundError(`Token ${contractAddress} not found on ${network}`);
     }
     
-    // Find the pair on the specified chain with highest liquidity
-    const chainPairs = pairs.filter((p: any) => p.chainId === dexChain);
-    const pair = chainPairs.length > 0 
-      ? chainPairs.reduce((a: any, b: any) => 
-          (a.liquidity?.usd || 0) > (b.liquidity?.usd || 0) ? a : b)
-      : pairs[0];
+    return {
+      symbol: attributes.symbol,
+      name: attributes.name,
+      price: positivePrice(attributes.price_usd, `No USD price for token ${contractAddress} on ${network}`),
+      priceChange24h: 0, // Not available at token level
+      priceChangePercentage24h: 0,
+      marketCap: parseFloat(attributes.market_cap_usd) || parseFloat(attributes.fdv_usd) || 0,
+      volume24h: parseFloat(attributes.volume_usd?.h24) || 0,
+      high24h: 0,
+      low24h: 0,
+      ath: 0,
+      athChangePercentage: 0,
+      lastUpdated: new Date().toISOString(),
+      source: 'geckoterminal',
+    };
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new TokenNotFoundError(`Token ${contractAddress} not found on ${network}`);
+    }
+    throw upstreamError(error, 'Failed to fetch price from GeckoTerminal');
+  }
+}
+
+async function getTokenPriceFromBinance(symbol: string): Promise<UsdTokenPrice> {
+  const upperSymbol = symbol.toUpperCase();
+  
+  try {
+    const response = await axios.get(
+      'https://api.binance.com/api/v3/ticker/24hr',
+      {
+        params: { symbol: `${upperSymbol}USDT` },
+        timeout: 10000,
+      }
+    );
     
-    const priceChange = pair.priceChange || {};
+    const ticker = response.data;
     
     return {
-      symbol: pair.baseToken.symbol,
-      name: pair.baseToken.name,
-      price: parseFloat(pair.priceUsd) || 0,
-      priceChange24h: (parseFloat(pair.priceUsd) * (priceChange.h24 || 0) / 100) || 0,
-      priceChangePercentage24h: priceChange.h24 || 0,
-      marketCap: pair.fdv || 0,
-      volume24h: pair.volume?.h24 || 0,
-      high24h: 0, // Not available from DexScreener
-      low24h: 0,  // Not available from DexScreener
-      ath: 0,     // Not available from DexScreener
+      symbol: upperSymbol,
+      name: upperSymbol, // Binance tickers carry no display name
+      price: positivePrice(ticker?.lastPrice, `No price for '${upperSymbol}' on Binance`),
+      priceChange24h: parseFloat(ticker.priceChange) || 0,
+      priceChangePercentage24h: parseFloat(ticker.priceChangePercent) || 0,
+      marketCap: 0, // Not available from Binance
+      volume24h: parseFloat(ticker.quoteVolume) || 0,
+      high24h: parseFloat(ticker.highPrice) || 0,
+      low24h: parseFloat(ticker.lowPrice) || 0,
+      ath: 0,
       athChangePercentage: 0,
-      lastUpdated: new Date().toISOString(),
-      source: 'dexscreener',
+      lastUpdated: new Date(ticker.closeTime || Date.now()).toISOString(),
+      source: 'binance',
     };
   } catch (error: any) {
-    throw new Error(`Failed to fetch price from DexScreener: ${error.message}`);
+    if (error.response?.status === 400) {
+      throw new TokenNotFoundError(`Token '${symbol}' not listed on Binance`);
+    }
+    throw upstreamError(error, 'Failed to fetch price from Binance');
   }
 }
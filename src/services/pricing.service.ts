@@ -0,0 +1,218 @@
+import { readFileSync } from 'node:fs';
+import type { HTTPRequestContext } from '@x402/core/server';
+import { config, scalePrice } from '../config.js';
+import { assetDecimals } from '../payments.js';
+import { decodePayment, settledCallCount } from './ledger.service.js';
+import type { SkillRoute } from '../types.js';
+
+// =============================================================================
+// Pricing Rules
+// =============================================================================
+
+export interface VolumeTier {
+  minCalls: number;         // Settled calls in the trailing window to qualify
+  discountPercent: number;
+}
+
+export interface PartnerRule {
+  address: string;
+  discountPercent: number;
+  name?: string;
+}
+
+// Requests with more units of work than `includedUnits` (indicators, chains...)
+// pay a surcharge for each extra unit
+export interface ComplexityRule {
+  includedUnits: number;
+  surchargePercentPerUnit: number;
+}
+
+export interface PricingRules {
+  volumeWindowDays: number;
+  volumeTiers: VolumeTier[];
+  partners: PartnerRule[];
+  complexity: Record<string, ComplexityRule>; // Keyed by route path
+}
+
+const DEFAULT_RULES: PricingRules = {
+  volumeWindowDays: 30,
+  volumeTiers: [],
+  partners: [],
+  complexity: {},
+};
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// Lets a payer see their discounted price in the 402 before signing. Once a
+// payment is attached, its signer is used instead.
+export const PAYER_HEADER = 'X-Payer-Address';
+
+function checkPercent(value: unknown, where: string): number {
+  if (typeof value !== 'number' || value < 0 || value > 100) {
+    throw new Error(`${where}: discount/surcharge percent must be a number between 0 and 100`);
+  }
+  return value;
+}
+
+/**
+ * Load pricing rules from a JSON file. Misconfigured rules fail startup rather
+ * than silently charging the wrong price.
+ */
+export function loadPricingRules(filePath: string): PricingRules {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to load pricing rules from ${filePath}: ${error.message}`);
+  }
+  
+  // The ledger keeps a year of call counts
+  const volumeWindowDays = raw.volumeWindowDays ?? DEFAULT_RULES.volumeWindowDays;
+  if (!Number.isInteger(volumeWindowDays) || volumeWindowDays < 1 || volumeWindowDays > 365) {
+    throw new Error(`${filePath}: volumeWindowDays must be an integer between 1 and 365`);
+  }
+  
+  const volumeTiers: VolumeTier[] = (raw.volumeTiers || []).map((tier: any, i: number) => {
+    if (!Number.isInteger(tier.minCalls) || tier.minCalls < 1) {
+      throw new Error(`${filePath}: volumeTiers[${i}].minCalls must be a positive integer`);
+    }
+    return { minCalls: tier.minCalls, discountPercent: checkPercent(tier.discountPercent, `${filePath}: volumeTiers[${i}]`) };
+  });
+  
+  const partners: PartnerRule[] = (raw.partners || []).map((partner: any, i: number) => {
+    if (typeof partner.address !== 'string' || !ADDRESS_PATTERN.test(partner.address)) {
+      throw new Error(`${filePath}: partners[${i}].address must be a 0x wallet address`);
+    }
+    return {
+      address: partner.address.toLowerCase(),
+      discountPercent: checkPercent(partner.discountPercent, `${filePath}: partners[${i}]`),
+      name: partner.name,
+    };
+  });
+  
+  const complexity: Record<string, ComplexityRule> = {};
+  for (const [path, rule] of Object.entries<any>(raw.complexity || {})) {
+    if (!Number.isInteger(rule.includedUnits) || rule.includedUnits < 0) {
+      throw new Error(`${filePath}: complexity["${path}"].includedUnits must be a non-negative integer`);
+    }
+    if (typeof rule.surchargePercentPerUnit !== 'number' || rule.surchargePercentPerUnit < 0) {
+      throw new Error(`${filePath}: complexity["${path}"].surchargePercentPerUnit must be a non-negative number`);
+    }
+    complexity[path] = { includedUnits: rule.includedUnits, surchargePercentPerUnit: rule.surchargePercentPerUnit };
+  }
+  
+  return {
+    volumeWindowDays,
+    volumeTiers: volumeTiers.sort((a, b) => b.minCalls - a.minCalls),
+    partners,
+    complexity,
+  };
+}
+
+const rules: PricingRules = config.pricingRulesFile
+  ? loadPricingRules(config.pricingRulesFile)
+  : DEFAULT_RULES;
+
+// =============================================================================
+// Call Volume
+// =============================================================================
+
+// Volume is counted from settled calls in the usage ledger, whether paid with
+// x402 or from credits
+export function trailingCallCount(payer: string, now: number = Date.now()): number {
+  return settledCallCount(payer, now - rules.volumeWindowDays * 24 * 60 * 60 * 1000);
+}
+
+// =============================================================================
+// Quotes
+// =============================================================================
+
+export interface PriceQuote {
+  price: `$${string}`;
+  basePrice: `$${string}`;
+  surchargePercent: number;
+  discountPercent: number;
+  discount: 'partner' | 'volume' | null;
+}
+
+function payerAddress(context: HTTPRequestContext): string | undefined {
+  if (context.paymentHeader) {
+    // Malformed payment headers are rejected by the payment middleware
+    return decodePayment(context.paymentHeader)?.payer;
+  }
+  const claimed = context.adapter.getHeader(PAYER_HEADER);
+  return claimed && ADDRESS_PATTERN.test(claimed) ? claimed.toLowerCase() : undefined;
+}
+
+// Whether an x402 payment was signed for `price` (to within one atomic unit
+// of its asset)
+function signedFor(paymentHeader: string, price: string): boolean {
+  const payment = decodePayment(paymentHeader);
+  if (!payment?.amount) return false;
+  const units = parseFloat(price.replace('$', '')) * 10 ** assetDecimals(payment.network, payment.asset);
+  return Math.abs(Number(payment.amount) - units) < 1;
+}
+
+// Partner and volume discounts don't stack: the larger one applies
+function bestDiscount(payer: string | undefined): Pick<PriceQuote, 'discountPercent' | 'discount'> {
+  if (!payer) return { discountPercent: 0, discount: null };
+  
+  const partner = rules.partners.find(p => p.address === payer);
+  const calls = rules.volumeTiers.length > 0 ? trailingCallCount(payer) : 0;
+  const tier = rules.volumeTiers.find(t => calls >= t.minCalls);
+  
+  if (partner && partner.discountPercent >= (tier?.discountPercent || 0)) {
+    return { discountPercent: partner.discountPercent, discount: 'partner' };
+  }
+  if (tier) {
+    return { discountPercent: tier.discountPercent, discount: 'volume' };
+  }
+  return { discountPercent: 0, discount: null };
+}
+
+/**
+ * Price a request to `route`: its base price, plus any complexity surcharge,
+ * less the payer's best discount. The payment middleware recomputes this when
+ * the payment arrives, so the signed amount must match the price for the
+ * actual signer - claiming someone else's address in the 402 request gains
+ * nothing. A payer who didn't identify themselves was quoted the undiscounted
+ * price, so a payment signed for exactly that is accepted as well. Requests
+ * paid from credits pass the session's payer instead.
+ */
+export function quotePrice(route: SkillRoute, context: HTTPRequestContext, payer = payerAddress(context)): PriceQuote {
+  const basePrice = typeof route.price === 'function' ? route.price(context) : route.price;
+  if (route.creditPurchase) {
+    return { price: basePrice, basePrice, surchargePercent: 0, discountPercent: 0, discount: null };
+  }
+  
+  const rule = rules.complexity[route.path];
+  const units = rule && route.complexity ? route.complexity(context) : 0;
+  const surchargePercent = rule ? Math.max(0, units - rule.includedUnits) * rule.surchargePercentPerUnit : 0;
+  
+  const undiscounted = scalePrice(basePrice, 1 + surchargePercent / 100);
+  let { discountPercent, discount } = bestDiscount(payer);
+  if (discountPercent > 0 && context.paymentHeader && signedFor(context.paymentHeader, undiscounted)) {
+    ({ discountPercent, discount } = { discountPercent: 0, discount: null });
+  }
+  const multiplier = (1 + surchargePercent / 100) * (1 - discountPercent / 100);
+  
+  return {
+    price: scalePrice(basePrice, multiplier),
+    basePrice,
+    surchargePercent,
+    discountPercent,
+    discount,
+  };
+}
+
+// Public summary of the pricing rules for the service listing. Partner
+// addresses and discounts are not disclosed.
+export function describePricingRules() {
+  return {
+    payerHeader: PAYER_HEADER,
+    volumeWindowDays: rules.volumeWindowDays,
+    volumeTiers: [...rules.volumeTiers].reverse(),
+    complexity: rules.complexity,
+    partnerDiscounts: rules.partners.length > 0,
+  };
+}
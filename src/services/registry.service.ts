@@ -0,0 +1,132 @@
+import axios from 'axios';
+import { config } from '../config.js';
+import { AmbiguousSymbolError, TokenNotFoundError, upstreamError } from '../errors.js';
+import type { TokenCandidate } from '../types.js';
+import bundledTokens from '../data/tokens.json' with { type: 'json' };
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+// `platforms` is keyed by the chain names used across the API (DexScreener's
+// chain ids)
+export type TokenEntry = TokenCandidate;
+
+// CoinGecko platform ids for the chains we support
+const COINGECKO_PLATFORMS: Record<string, string> = {
+  'ethereum': 'ethereum',
+  'base': 'base',
+  'arbitrum-one': 'arbitrum',
+  'optimistic-ethereum': 'optimism',
+  'polygon-pos': 'polygon',
+  'solana': 'solana',
+  'binance-smart-chain': 'bsc',
+  'avalanche': 'avalanche',
+};
+
+const MAX_CANDIDATES = 10;
+
+// Curated entries always win for their symbol, however many other coins share
+// the ticker on CoinGecko
+const curated = bundledTokens as TokenEntry[];
+
+// CoinGecko's full coin list, once fetched
+let listed: TokenEntry[] = [];
+let listedAt: Date | null = null;
+
+const bySymbol = (entries: TokenEntry[], symbol: string) =>
+  entries.filter(e => e.symbol.toUpperCase() === symbol.toUpperCase());
+
+/**
+ * Resolve a symbol (or a CoinGecko id) to a single token. Curated tokens
+ * resolve by symbol first; otherwise the coin list must hold exactly one
+ * match, or one on `chain` when given. Several matches throw
+ * AmbiguousSymbolError with the candidates instead of guessing.
+ */
+export function resolveToken(symbol: string, chain?: string): TokenEntry {
+  const preferred = bySymbol(curated, symbol);
+  if (preferred.length > 0) return preferred[0];
+  
+  const id = symbol.toLowerCase();
+  const byId = curated.find(e => e.id === id) || listed.find(e => e.id === id);
+  if (byId) return byId;
+  
+  let matches = bySymbol(listed, symbol);
+  if (chain && matches.length > 1) {
+    const onChain = matches.filter(e => e.platforms[chain.toLowerCase()]);
+    if (onChain.length > 0) matches = onChain;
+  }
+  
+  if (matches.length === 1) return matches[0];
+  if (matches.length === 0) {
+    throw new TokenNotFoundError(listedAt
+      ? `Unknown token symbol '${symbol}'. Use its contractAddress and chain instead.`
+      : `Unknown token symbol '${symbol}' (the full token list is not loaded yet). Use its contractAddress and chain instead.`);
+  }
+  throw new AmbiguousSymbolError(
+    `Symbol '${symbol}' matches ${matches.length} tokens. Retry with one of the candidate ids as the symbol, or with a contractAddress and chain.`,
+    matches.slice(0, MAX_CANDIDATES)
+  );
+}
+
+export function resolveCoinGeckoId(symbol: string, chain?: string): string {
+  return resolveToken(symbol, chain).id;
+}
+
+/**
+ * The registry entry for a contract address, if any.
+ */
+export function findTokenByContract(contractAddress: string, chain: string): TokenEntry | undefined {
+  const address = contractAddress.toLowerCase();
+  const matches = (e: TokenEntry) => e.platforms[chain.toLowerCase()]?.toLowerCase() === address;
+  return curated.find(matches) || listed.find(matches);
+}
+
+// =============================================================================
+// Refreshing from CoinGecko
+// =============================================================================
+
+/**
+ * Replace the coin list with CoinGecko's current one. Only contract addresses
+ * on supported chains are kept.
+ */
+export async function refreshTokenList(): Promise<void> {
+  try {
+    const response = await axios.get('https://api.coingecko.com/api/v3/coins/list', {
+      params: { include_platform: true },
+      timeout: 30000,
+    });
+    
+    listed = (response.data as any[])
+      .filter(coin => typeof coin.id === 'string' && typeof coin.symbol === 'string')
+      .map(coin => ({
+        id: coin.id,
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        platforms: Object.fromEntries(
+          Object.entries(coin.platforms || {})
+            .filter(([platform, address]) => COINGECKO_PLATFORMS[platform] && address)
+            .map(([platform, address]) => [COINGECKO_PLATFORMS[platform], address as string])
+        ),
+      }));
+    listedAt = new Date();
+  } catch (error: any) {
+    throw upstreamError(error, 'Failed to fetch the CoinGecko coin list');
+  }
+}
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Load the coin list now and keep it fresh. Until the first load succeeds,
+ * only curated tokens resolve.
+ */
+export function startTokenListRefresh(): void {
+  if (refreshTimer || config.tokens.refreshHours <= 0) return;
+  const refresh = () => refreshTokenList()
+    .then(() => console.log(`[tokens] Loaded ${listed.length} tokens from CoinGecko`))
+    .catch(error => console.error('[tokens]', error.message));
+  refresh();
+  refreshTimer = setInterval(refresh, config.tokens.refreshHours * 60 * 60 * 1000);
+  refreshTimer.unref();
+}
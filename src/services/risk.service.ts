@@ -0,0 +1,209 @@
+import { isNativeToken, isStablecoin, type TokenHolding } from './portfolio.service.js';
+import { findTokenByContract } from './registry.service.js';
+import { fetchCoinHistory, fetchDexCandles, fetchPriceHistory, findDexPair, type PriceData } from './signals.service.js';
+import { InsufficientDataError } from '../errors.js';
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  matrix: number[][];
+}
+
+export interface PortfolioRisk {
+  lookbackDays: number;
+  coveredValuePercentage: number; // Share of portfolio value the metrics are based on
+  annualizedVolatility: number;   // %
+  beta: {
+    eth: number;
+    btc: number;
+  };
+  valueAtRisk95: {
+    percentage: number; // 1-day, historical
+    valueUsd: number;
+    value: number;      // In the analysis' vsCurrency
+  };
+  maxDrawdown: number; // % over the lookback window
+  correlationMatrix: CorrelationMatrix;
+  excluded: { symbol: string; reason: string }[];
+}
+
+const RISK_LOOKBACK_DAYS = 90;
+const MAX_RISK_ASSETS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// History requests in flight at once, to stay under CoinGecko's free-tier
+// rate limit
+const HISTORY_CONCURRENCY = 3;
+
+interface RiskPosition {
+  key: string;
+  symbol: string;
+  value: number;
+  history: () => Promise<PriceData[] | null>; // null for stablecoins
+}
+
+// Identify a holding by its contract address rather than its ticker, so
+// lookalike symbols don't borrow another token's history. Registry tokens
+// are keyed by CoinGecko id, which merges the same asset across chains;
+// unlisted tokens fall back to their most liquid DEX pair.
+function riskPosition(holding: TokenHolding): RiskPosition {
+  const { symbol, chain, contractAddress, valueUsd: value } = holding;
+  if (isStablecoin(holding)) {
+    return { key: `stable:${symbol.toUpperCase()}`, symbol, value, history: async () => null };
+  }
+  if (isNativeToken(holding)) {
+    return { key: `native:${symbol.toUpperCase()}`, symbol, value, history: () => fetchPriceHistory(symbol, 'daily', RISK_LOOKBACK_DAYS) };
+  }
+  const entry = findTokenByContract(contractAddress, chain);
+  if (entry) {
+    return { key: `coingecko:${entry.id}`, symbol, value, history: () => fetchCoinHistory(entry.id, 'daily', RISK_LOOKBACK_DAYS) };
+  }
+  return {
+    key: `${chain}:${contractAddress.toLowerCase()}`,
+    symbol,
+    value,
+    history: async () => {
+      const pair = await findDexPair(contractAddress, chain);
+      const to = Date.now();
+      return fetchDexCandles(pair.address, contractAddress, chain, 'daily', to - (RISK_LOOKBACK_DAYS + 1) * DAY_MS, to);
+    },
+  };
+}
+
+/**
+ * Compute risk metrics from daily returns of the largest holdings. The same
+ * asset held on several chains is merged into one position. Stablecoins are
+ * treated as flat (zero return) so they dampen risk without a history fetch.
+ * `usdRate` quotes the VaR value in the analysis' currency.
+ */
+export async function calculatePortfolioRisk(holdings: TokenHolding[], totalValueUsd: number, usdRate = 1): Promise<PortfolioRisk> {
+  const byKey = new Map<string, RiskPosition>();
+  for (const h of holdings) {
+    const position = riskPosition(h);
+    const merged = byKey.get(position.key);
+    byKey.set(position.key, merged ? { ...merged, value: merged.value + position.value } : position);
+  }
+  const positions = [...byKey.values()]
+    .filter(p => p.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  const excluded = positions.slice(MAX_RISK_ASSETS).map(({ symbol }) => ({
+    symbol,
+    reason: `Outside the top ${MAX_RISK_ASSETS} holdings`,
+  }));
+
+  // Benchmarks first, then holdings a few at a time; failed histories are
+  // excluded
+  const candidates = positions.slice(0, MAX_RISK_ASSETS);
+  const [ethHistory, btcHistory] = await Promise.all([
+    fetchPriceHistory('ETH', 'daily', RISK_LOOKBACK_DAYS),
+    fetchPriceHistory('BTC', 'daily', RISK_LOOKBACK_DAYS),
+  ]);
+  const histories: (PriceData[] | null | Error)[] = [];
+  for (let i = 0; i < candidates.length; i += HISTORY_CONCURRENCY) {
+    const chunk = candidates.slice(i, i + HISTORY_CONCURRENCY);
+    histories.push(...await Promise.all(chunk.map(p => p.history().catch((error: Error) => error))));
+  }
+
+  const ethReturns = dailyReturns(ethHistory);
+  const btcReturns = dailyReturns(btcHistory);
+  const days = [...ethReturns.keys()].filter(day => btcReturns.has(day));
+
+  const assets: { symbol: string; value: number; returns: Map<number, number> }[] = [];
+  candidates.forEach(({ symbol, value }, i) => {
+    const history = histories[i];
+    if (history instanceof Error) {
+      excluded.push({ symbol, reason: history.message });
+    } else if (history === null) {
+      assets.push({ symbol, value, returns: new Map(days.map(day => [day, 0])) });
+    } else {
+      assets.push({ symbol, value, returns: dailyReturns(history as PriceData[]) });
+    }
+  });
+
+  // Only days where every included asset has a return
+  const commonDays = days.filter(day => assets.every(a => a.returns.has(day)));
+  const coveredValue = assets.reduce((sum, a) => sum + a.value, 0);
+
+  if (assets.length === 0 || commonDays.length < 2) {
+    throw new InsufficientDataError('Insufficient price history to compute portfolio risk');
+  }
+
+  const series = assets.map(a => commonDays.map(day => a.returns.get(day)!));
+  const weights = assets.map(a => a.value / coveredValue);
+  const portfolioReturns = commonDays.map((_, t) => series.reduce((sum, s, i) => sum + weights[i] * s[t], 0));
+  const ethSeries = commonDays.map(day => ethReturns.get(day)!);
+  const btcSeries = commonDays.map(day => btcReturns.get(day)!);
+
+  const var95 = Math.max(0, -percentile(portfolioReturns, 0.05));
+
+  return {
+    lookbackDays: commonDays.length,
+    coveredValuePercentage: totalValueUsd > 0 ? (coveredValue / totalValueUsd) * 100 : 0,
+    annualizedVolatility: Math.sqrt(variance(portfolioReturns) * 365) * 100,
+    beta: {
+      eth: beta(portfolioReturns, ethSeries),
+      btc: beta(portfolioReturns, btcSeries),
+    },
+    valueAtRisk95: {
+      percentage: var95 * 100,
+      valueUsd: var95 * totalValueUsd,
+      value: var95 * totalValueUsd * usdRate,
+    },
+    maxDrawdown: maxDrawdown(portfolioReturns) * 100,
+    correlationMatrix: {
+      symbols: assets.map(a => a.symbol),
+      matrix: series.map(a => series.map(b => correlation(a, b))),
+    },
+    excluded,
+  };
+}
+
+// Close-to-close returns keyed by UTC day
+function dailyReturns(history: PriceData[]): Map<number, number> {
+  const returns = new Map<number, number>();
+  for (let i = 1; i < history.length; i++) {
+    returns.set(Math.floor((history[i].timestamp - 1) / DAY_MS), history[i].close / history[i - 1].close - 1);
+  }
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+function variance(values: number[]): number {
+  return covariance(values, values);
+}
+
+function beta(returns: number[], benchmark: number[]): number {
+  const benchmarkVariance = variance(benchmark);
+  return benchmarkVariance > 0 ? covariance(returns, benchmark) / benchmarkVariance : 0;
+}
+
+function correlation(a: number[], b: number[]): number {
+  const denominator = Math.sqrt(variance(a) * variance(b));
+  // Flat series (stablecoins) have no defined correlation; report 0
+  return denominator > 0 ? covariance(a, b) / denominator : (a === b ? 1 : 0);
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(p * (sorted.length - 1))];
+}
+
+function maxDrawdown(returns: number[]): number {
+  let equity = 1;
+  let peak = 1;
+  let drawdown = 0;
+  for (const r of returns) {
+    equity *= 1 + r;
+    peak = Math.max(peak, equity);
+    drawdown = Math.max(drawdown, (peak - equity) / peak);
+  }
+  return drawdown;
+}
@@ -0,0 +1,365 @@
+import axios from 'axios';
+import { cached } from './cache.service.js';
+import { dexScreenerChain, fetchDexScreenerPairs, geckoTerminalNetwork, pairTxns24h } from './price.service.js';
+import { config } from '../config.js';
+import { TokenNotFoundError, UnsupportedChainError, UpstreamUnavailableError, toApiError, upstreamError } from '../errors.js';
+
+export type RiskFactorName =
+  | 'liquidity'
+  | 'liquidity_fdv'
+  | 'pair_age'
+  | 'pair_count'
+  | 'trade_imbalance'
+  | 'holder_concentration'
+  | 'owner'
+  | 'mint_function'
+  | 'proxy';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskFactor {
+  factor: RiskFactorName;
+  value: number | string | boolean | null;
+  points: number;      // Risk this factor adds, out of maxPoints
+  maxPoints: number;
+  available: boolean;  // False when the data could not be read; left out of the score
+  detail: string;
+}
+
+export interface ContractTraits {
+  owner: string | null;           // null when the contract has no owner()
+  ownerRenounced: boolean;
+  hasMintFunction: boolean;
+  isProxy: boolean;
+  implementation?: string;
+}
+
+export interface TokenRisk {
+  contractAddress: string;
+  chain: string;
+  symbol: string;
+  name: string;
+  score: number;       // 0-100, higher = riskier
+  level: RiskLevel;
+  coverage: number;    // % of the scoring weight backed by available data
+  liquidityUsd: number;
+  pairCount: number;
+  factors: RiskFactor[];
+  analyzedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fewer 24h trades than this say nothing about buy/sell balance
+const MIN_TRADES = 10;
+
+// Points scored below each threshold, checked in order
+function banded(value: number, bands: [number, number][]): number {
+  return bands.find(([below]) => value < below)?.[1] ?? 0;
+}
+
+const unavailable = (factor: RiskFactorName, maxPoints: number, detail: string): RiskFactor =>
+  ({ factor, value: null, points: 0, maxPoints, available: false, detail });
+
+const riskLevel = (score: number): RiskLevel =>
+  score < 25 ? 'low' : score < 50 ? 'medium' : score < 75 ? 'high' : 'critical';
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+// =============================================================================
+// Screening
+// =============================================================================
+
+/**
+ * Score how risky a token is to trade from its DEX pairs on `chain`, its
+ * holder distribution and (on EVM chains) its contract. Factors whose data
+ * can't be read are reported but left out of the score, so `coverage` says
+ * how much of it is backed by data.
+ */
+export async function screenToken(contractAddress: string, chain: string): Promise<TokenRisk> {
+  const dexChain = dexScreenerChain(chain);
+  const address = contractAddress.toLowerCase();
+  
+  let pairs: any[];
+  try {
+    pairs = (await fetchDexScreenerPairs(contractAddress)).filter(p => p.chainId === dexChain);
+  } catch (error) {
+    throw upstreamError(error, 'Failed to fetch pairs from DexScreener');
+  }
+  if (pairs.length === 0) {
+    throw new TokenNotFoundError(`No trading pairs found for contract ${contractAddress} on ${chain}`);
+  }
+  
+  const [holders, contract] = await Promise.allSettled([
+    readTopHoldersShare(contractAddress, chain),
+    readContractTraits(contractAddress, chain),
+  ]);
+  
+  const mostLiquid = (a: any, b: any) => (a.liquidity?.usd || 0) >= (b.liquidity?.usd || 0) ? a : b;
+  const main = pairs.reduce(mostLiquid);
+  const token = main.baseToken?.address?.toLowerCase() === address ? main.baseToken : main.quoteToken;
+  // DexScreener's valuations describe a pair's base token
+  const asBase = pairs.filter(p => p.baseToken?.address?.toLowerCase() === address);
+  const reference = asBase.length > 0 ? asBase.reduce(mostLiquid) : undefined;
+  const liquidityUsd = pairs.reduce((sum, p) => sum + (p.liquidity?.usd || 0), 0);
+  const created = pairs.map(p => p.pairCreatedAt).filter((t): t is number => typeof t === 'number');
+  const { buys, sells } = pairTxns24h(pairs, address);
+  
+  const factors = [
+    liquidityFactor(liquidityUsd),
+    liquidityFdvFactor(liquidityUsd, reference?.fdv),
+    pairAgeFactor(created.length > 0 ? Math.min(...created) : undefined),
+    pairCountFactor(pairs.length),
+    tradeImbalanceFactor(buys, sells),
+    holders.status === 'fulfilled'
+      ? holderConcentrationFactor(holders.value)
+      : unavailable('holder_concentration', 15, `Holder distribution unavailable: ${toApiError(holders.reason).message}`),
+    ...(contract.status === 'fulfilled'
+      ? contractFactors(contract.value)
+      : contractUnavailable(toApiError(contract.reason).message)),
+  ];
+  
+  const available = factors.filter(f => f.available);
+  const weight = available.reduce((sum, f) => sum + f.maxPoints, 0);
+  const score = weight > 0 ? Math.round(100 * available.reduce((sum, f) => sum + f.points, 0) / weight) : 0;
+  
+  return {
+    contractAddress,
+    chain,
+    symbol: token.symbol,
+    name: token.name,
+    score,
+    level: riskLevel(score),
+    coverage: Math.round(100 * weight / factors.reduce((sum, f) => sum + f.maxPoints, 0)),
+    liquidityUsd,
+    pairCount: pairs.length,
+    factors,
+    analyzedAt: new Date().toISOString(),
+  };
+}
+
+// =============================================================================
+// Market Factors
+// =============================================================================
+
+// Total liquidity across the token's pairs on the chain: how much can be
+// sold before the price collapses
+function liquidityFactor(liquidityUsd: number): RiskFactor {
+  return {
+    factor: 'liquidity',
+    value: liquidityUsd,
+    points: banded(liquidityUsd, [[10000, 20], [50000, 14], [250000, 7], [1000000, 3]]),
+    maxPoints: 20,
+    available: true,
+    detail: `${formatUsd(liquidityUsd)} of liquidity across all pairs`,
+  };
+}
+
+// A valuation far above the liquidity backing it can't be realized
+function liquidityFdvFactor(liquidityUsd: number, fdv: number | undefined): RiskFactor {
+  if (fdv === undefined || fdv <= 0) {
+    return unavailable('liquidity_fdv', 15, 'Fully diluted valuation not reported for a pair with this token as its base');
+  }
+  const ratio = 100 * liquidityUsd / fdv;
+  return {
+    factor: 'liquidity_fdv',
+    value: parseFloat(ratio.toFixed(2)),
+    points: banded(ratio, [[1, 15], [3, 10], [10, 4]]),
+    maxPoints: 15,
+    available: true,
+    detail: `Liquidity is ${ratio.toFixed(2)}% of the ${formatUsd(fdv)} fully diluted valuation`,
+  };
+}
+
+// Age of the oldest pair, i.e. how long the token has traded
+function pairAgeFactor(createdAt: number | undefined): RiskFactor {
+  if (createdAt === undefined) {
+    return unavailable('pair_age', 15, 'Pair creation time not reported');
+  }
+  const days = (Date.now() - createdAt) / DAY_MS;
+  return {
+    factor: 'pair_age',
+    value: parseFloat(days.toFixed(1)),
+    points: banded(days, [[1, 15], [7, 10], [30, 5]]),
+    maxPoints: 15,
+    available: true,
+    detail: `First pair created ${days.toFixed(1)} days ago`,
+  };
+}
+
+function pairCountFactor(count: number): RiskFactor {
+  return {
+    factor: 'pair_count',
+    value: count,
+    points: banded(count, [[2, 5], [4, 2]]),
+    maxPoints: 5,
+    available: true,
+    detail: count === 1 ? 'Trades in a single pair' : `Trades in ${count} pairs`,
+  };
+}
+
+// Buys without sells are the signature of a honeypot (a token that can't be
+// sold); a flood of sells, of holders heading for the exit
+function tradeImbalanceFactor(buys: number, sells: number): RiskFactor {
+  const trades = buys + sells;
+  if (trades < MIN_TRADES) {
+    return unavailable('trade_imbalance', 10, `Only ${trades} trades in 24h`);
+  }
+  const sellShare = 100 * sells / trades;
+  const points = sells === 0 ? 10 : sellShare < 20 ? 8 : sellShare > 80 ? 5 : Math.abs(sellShare - 50) > 20 ? 3 : 0;
+  return {
+    factor: 'trade_imbalance',
+    value: parseFloat(sellShare.toFixed(1)),
+    points,
+    maxPoints: 10,
+    available: true,
+    detail: sells === 0
+      ? `${buys} buys and no sells in 24h: the token may not be sellable`
+      : `${buys} buys and ${sells} sells in 24h (${sellShare.toFixed(1)}% sells)`,
+  };
+}
+
+// =============================================================================
+// Holder Concentration
+// =============================================================================
+
+/**
+ * Percentage of supply held by the 10 largest holders, from GeckoTerminal.
+ */
+async function readTopHoldersShare(contractAddress: string, chain: string): Promise<number> {
+  const network = geckoTerminalNetwork(chain);
+  try {
+    const top10 = await cached('contract', `geckoterminal:holders:${network}:${contractAddress.toLowerCase()}`, async () => {
+      const response = await axios.get(
+        `https://api.geckoterminal.com/api/v2/networks/${network}/tokens/${contractAddress}/info`,
+        { timeout: 10000 }
+      );
+      return parseFloat(response.data.data?.attributes?.holders?.distribution_percentage?.top_10);
+    });
+    if (!Number.isFinite(top10)) {
+      throw new UpstreamUnavailableError('GeckoTerminal has no holder data for this token');
+    }
+    return top10;
+  } catch (error) {
+    throw upstreamError(error, 'Failed to fetch holders from GeckoTerminal');
+  }
+}
+
+// The top holders often include the pair itself and burn addresses, so only
+// heavy concentration scores
+function holderConcentrationFactor(top10: number): RiskFactor {
+  return {
+    factor: 'holder_concentration',
+    value: top10,
+    points: top10 >= 80 ? 15 : top10 >= 60 ? 10 : top10 >= 40 ? 5 : 0,
+    maxPoints: 15,
+    available: true,
+    detail: `Top 10 holders own ${top10.toFixed(1)}% of supply`,
+  };
+}
+
+// =============================================================================
+// Contract Traits
+// =============================================================================
+
+const OWNER_SELECTOR = '0x8da5cb5b'; // owner()
+// PUSH4 of mint(address,uint256) and mint(uint256) in a function dispatcher
+const MINT_DISPATCH = ['6340c10f19', '63a0712d68'];
+// EIP-1967 implementation slot and the EIP-1167 minimal proxy prefix
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const MINIMAL_PROXY_PREFIX = '0x363d3d373d3d3d363d73';
+const RENOUNCED_OWNERS = ['0x0000000000000000000000000000000000000000', '0x000000000000000000000000000000000000dead'];
+
+async function rpc(url: string, method: string, params: unknown[]): Promise<string> {
+  const response = await axios.post(url, { jsonrpc: '2.0', method, params, id: 1 }, { timeout: 10000 });
+  // JSON-RPC errors arrive with HTTP 200
+  if (response.data.error) {
+    throw new UpstreamUnavailableError(`RPC returned an error: ${response.data.error.message}`);
+  }
+  return response.data.result;
+}
+
+const isZero = (word: string) => !/[1-9a-f]/i.test(word.slice(2));
+
+/**
+ * Read a token contract's owner, proxy setup and whether it (or its
+ * implementation) exposes a public mint function, over the chain's
+ * configured RPC endpoint.
+ */
+async function readContractTraits(contractAddress: string, chain: string): Promise<ContractTraits> {
+  const rpcUrl = config.rpcUrls[dexScreenerChain(chain)];
+  if (!rpcUrl) {
+    throw new UnsupportedChainError(`Contract checks need an EVM chain with an RPC endpoint; none is configured for ${chain}`);
+  }
+  
+  try {
+    return await cached('contract', `traits:${dexScreenerChain(chain)}:${contractAddress.toLowerCase()}`, async () => {
+      const [code, slot, owner] = await Promise.all([
+        rpc(rpcUrl, 'eth_getCode', [contractAddress, 'latest']),
+        rpc(rpcUrl, 'eth_getStorageAt', [contractAddress, IMPLEMENTATION_SLOT, 'latest']),
+        // Contracts without owner() revert (or return nothing)
+        rpc(rpcUrl, 'eth_call', [{ to: contractAddress, data: OWNER_SELECTOR }, 'latest'])
+          .catch(error => /revert/i.test(error.message) ? '0x' : Promise.reject(error)),
+      ]);
+      if (isZero(code)) {
+        throw new TokenNotFoundError(`${contractAddress} is not a contract`);
+      }
+      
+      const implementation = !isZero(slot) ? `0x${slot.slice(-40)}`
+        : code.toLowerCase().startsWith(MINIMAL_PROXY_PREFIX) ? `0x${code.slice(22, 62)}`
+        : undefined;
+      const logic = (implementation ? await rpc(rpcUrl, 'eth_getCode', [implementation, 'latest']) : code).toLowerCase();
+      const ownerAddress = owner.length >= 66 ? `0x${owner.slice(26, 66)}`.toLowerCase() : null;
+      
+      return {
+        owner: ownerAddress,
+        ownerRenounced: ownerAddress !== null && RENOUNCED_OWNERS.includes(ownerAddress),
+        hasMintFunction: MINT_DISPATCH.some(push => logic.includes(push)),
+        isProxy: implementation !== undefined,
+        implementation,
+      };
+    });
+  } catch (error) {
+    throw upstreamError(error, 'Failed to read the token contract');
+  }
+}
+
+function contractFactors(traits: ContractTraits): RiskFactor[] {
+  const activeOwner = traits.owner !== null && !traits.ownerRenounced;
+  return [
+    {
+      factor: 'owner',
+      value: traits.owner,
+      points: activeOwner ? 7 : 0,
+      maxPoints: 7,
+      available: true,
+      detail: traits.owner === null ? 'No owner() function'
+        : traits.ownerRenounced ? 'Ownership renounced'
+        : `Owned by ${traits.owner}, who may hold privileged functions`,
+    },
+    {
+      factor: 'mint_function',
+      value: traits.hasMintFunction,
+      points: traits.hasMintFunction ? 8 : 0,
+      maxPoints: 8,
+      available: true,
+      detail: traits.hasMintFunction ? 'Exposes a public mint function: supply can grow' : 'No public mint function found',
+    },
+    {
+      factor: 'proxy',
+      value: traits.isProxy,
+      points: traits.isProxy ? 5 : 0,
+      maxPoints: 5,
+      available: true,
+      detail: traits.isProxy ? `Upgradeable proxy (implementation ${traits.implementation}): the code can change` : 'Not a proxy',
+    },
+  ];
+}
+
+function contractUnavailable(reason: string): RiskFactor[] {
+  return [
+    unavailable('owner', 7, reason),
+    unavailable('mint_function', 8, reason),
+    unavailable('proxy', 5, reason),
+  ];
+}
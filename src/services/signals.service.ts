@@ -1,4 +1,10 @@
 import axios from 'axios';
+import { cached } from './cache.service.js';
+import { convertFields, usdRate, type VsCurrency } from './currency.service.js';
+import { dexScreenerChain, fetchDexScreenerPairs, geckoTerminalNetwork, type TokenPriceRequest } from './price.service.js';
+import { resolveCoinGeckoId } from './registry.service.js';
+import { config } from '../config.js';
+import { InsufficientDataError, TokenNotFoundError, upstreamError } from '../errors.js';
 
 export type SignalStrength = 'strong_buy' | 'buy' | 'neutral' | 'sell' | 'strong_sell';
 
@@ -9,98 +15,273 @@ export interface TechnicalIndicator {
   interpretation: string;
 }
 
+export type SignalInterval = 'hourly' | '4h' | 'daily' | 'weekly';
+
+export const INDICATOR_NAMES = ['rsi', 'sma', 'macd', 'volume', 'bollinger', 'stoch', 'stochrsi', 'atr', 'obv', 'adx', 'vwap'] as const;
+
+export type IndicatorName = typeof INDICATOR_NAMES[number];
+
+export interface SignalOptions {
+  interval?: SignalInterval;
+  lookback?: number; // Number of candles to analyze
+  indicators?: IndicatorName[]; // Defaults to all indicators
+  vsCurrency?: VsCurrency; // Currency candles are priced in (defaults to usd)
+}
+
 export interface TradingSignal {
   symbol: string;
+  interval: SignalInterval;
+  lookback: number;
   currentPrice: number;
+  vsCurrency: VsCurrency;      // Currency of prices, levels and price-based indicator values
   overallSignal: SignalStrength;
   confidence: number; // 0-100
   indicators: TechnicalIndicator[];
   supportLevel: number;
   resistanceLevel: number;
+  pivotPoints?: PivotPoints;  // Absent when the candles have no high/low ranges
   trend: 'bullish' | 'bearish' | 'sideways';
   volatility: 'low' | 'medium' | 'high';
   summary: string;
   generatedAt: string;
+  // Contract-address tokens only
+  contractAddress?: string;
+  chain?: string;
+  pair?: DexPair;
+  warnings?: string[];         // Reasons the indicators may be unreliable or left out (thin liquidity, no high/low ranges)
 }
 
-interface PriceData {
+// One candle; `timestamp` is the candle's close time
+export interface PriceData {
   timestamp: number;
-  price: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
   volume: number;
+  // Set when the candle was built from too few sampled prices for its high
+  // and low to reflect the range actually traded
+  rangeEstimated?: boolean;
+}
+
+// The DEX pair a contract token's candles come from
+export interface DexPair {
+  address: string;
+  dexId: string;
+  baseSymbol: string;          // The requested token, whichever side of the pair it is
+  quoteSymbol: string;
+  liquidityUsd: number;
+  createdAt?: string;
+}
+
+export interface PivotPoints {
+  pivot: number;
+  r1: number;
+  r2: number;
+  s1: number;
+  s2: number;
+}
+
+interface IntervalSpec {
+  hoursPerCandle: number;
+  source: 'hourly' | 'daily';  // CoinGecko granularity candles are built from beyond 90 days
+  periodUnit: string;          // Used in labels, e.g. "20-day SMA"
+  smaPeriods: [number, number];
+  maxLookback: number;         // Bounded by CoinGecko's free-tier history window
 }
 
-export async function generateTradingSignals(symbol: string): Promise<TradingSignal> {
+export const SIGNAL_INTERVALS: Record<SignalInterval, IntervalSpec> = {
+  'hourly': { hoursPerCandle: 1, source: 'hourly', periodUnit: 'hour', smaPeriods: [20, 50], maxLookback: 500 },
+  '4h': { hoursPerCandle: 4, source: 'hourly', periodUnit: '4h-candle', smaPeriods: [20, 50], maxLookback: 500 },
+  'daily': { hoursPerCandle: 24, source: 'daily', periodUnit: 'day', smaPeriods: [20, 50], maxLookback: 364 },
+  // Classic weekly averages (10/40 weeks ~ 50/200 days)
+  'weekly': { hoursPerCandle: 168, source: 'daily', periodUnit: 'week', smaPeriods: [10, 40], maxLookback: 52 },
+};
+
+export const DEFAULT_LOOKBACK = 60;
+export const MIN_LOOKBACK = 20;
+
+// Indicators that read each candle's high and low, so need real ranges
+const RANGE_INDICATORS: IndicatorName[] = ['stoch', 'atr', 'adx'];
+
+const RANGE_INDICATOR_LABELS: Partial<Record<IndicatorName, string>> = {
+  stoch: 'Stochastic',
+  atr: 'ATR',
+  adx: 'ADX',
+};
+
+/**
+ * Signals for a symbol (from CoinGecko history) or a contract address (from
+ * its most liquid DEX pair's candles, with liquidity warnings).
+ */
+export async function generateTradingSignals(token: string | TokenPriceRequest, options: SignalOptions = {}): Promise<TradingSignal> {
+  const interval = options.interval || 'daily';
+  const spec = SIGNAL_INTERVALS[interval];
+  const lookback = Math.min(options.lookback || DEFAULT_LOOKBACK, spec.maxLookback);
+  
+  if (typeof token !== 'string' && token.contractAddress && token.chain) {
+    const { contractAddress, chain } = token;
+    const pair = await findDexPair(contractAddress, chain);
+    const to = Date.now();
+    const from = to - lookback * spec.hoursPerCandle * 60 * 60 * 1000;
+    const vsCurrency = options.vsCurrency || 'usd';
+    // GeckoTerminal only prices candles in USD
+    const rate = await usdRate(vsCurrency);
+    const priceHistory = (await fetchDexCandles(pair.address, contractAddress, chain, interval, from, to))
+      .slice(-lookback)
+      .map(candle => convertFields(candle, ['open', 'high', 'low', 'close', 'volume'], rate));
+    
+    const signal = analyzePriceHistory(pair.baseSymbol, priceHistory, { ...options, interval });
+    const warnings = [...(signal.warnings || []), ...liquidityWarnings(pair, priceHistory.length, lookback)];
+    if (vsCurrency !== 'usd') {
+      warnings.push(`DEX candles are priced in USD and converted to ${vsCurrency.toUpperCase()} at the current rate, so indicators don't reflect past exchange-rate moves.`);
+    }
+    return { ...signal, contractAddress, chain, pair, warnings };
+  }
+  
+  const symbol = typeof token === 'string' ? token : token.symbol!;
+  
   // Fetch historical price data
-  const priceHistory = await fetchPriceHistory(symbol);
+  const priceHistory = await fetchPriceHistory(symbol, interval, lookback, options.vsCurrency);
+  
+  return analyzePriceHistory(symbol, priceHistory, { ...options, interval });
+}
+
+// Conditions under which DEX-based indicators deserve less trust
+function liquidityWarnings(pair: DexPair, candles: number, lookback: number): string[] {
+  const warnings: string[] = [];
+  const { thinLiquidityUsd, newPairDays } = config.signals;
+  
+  if (pair.liquidityUsd < thinLiquidityUsd) {
+    warnings.push(`Thin liquidity: $${Math.round(pair.liquidityUsd).toLocaleString('en-US')} in the most liquid pair. Small trades can move the price, so indicators are less reliable.`);
+  }
+  if (pair.createdAt) {
+    const ageDays = (Date.now() - Date.parse(pair.createdAt)) / (24 * 60 * 60 * 1000);
+    if (ageDays < newPairDays) {
+      warnings.push(`New pair: created ${ageDays < 1 ? 'less than a day' : `${Math.floor(ageDays)} day${ageDays < 2 ? '' : 's'}`} ago. Prices have little history and can be volatile.`);
+    }
+  }
+  if (candles < lookback) {
+    warnings.push(`Only ${candles} of ${lookback} requested candles are available, so longer-period indicators use shortened periods.`);
+  }
+  return warnings;
+}
+
+/**
+ * Run the indicator and scoring logic over a candle series. Pure and
+ * synchronous so it can be replayed over historical windows (see backtesting).
+ */
+export function analyzePriceHistory(symbol: string, priceHistory: PriceData[], options: SignalOptions = {}): TradingSignal {
+  const interval = options.interval || 'daily';
+  const spec = SIGNAL_INTERVALS[interval];
   
   if (priceHistory.length < 14) {
-    throw new Error('Insufficient price history for technical analysis');
+    throw new InsufficientDataError('Insufficient price history for technical analysis');
   }
   
-  const currentPrice = priceHistory[priceHistory.length - 1].price;
-  const prices = priceHistory.map(p => p.price);
+  const currentPrice = priceHistory[priceHistory.length - 1].close;
+  const prices = priceHistory.map(p => p.close);
   const volumes = priceHistory.map(p => p.volume);
+  // Without real ranges, range-based indicators are left out and levels and
+  // volatility work from closes alone
+  const hasRanges = !priceHistory.some(p => p.rangeEstimated);
+  const highs = hasRanges ? priceHistory.map(p => p.high) : prices;
+  const lows = hasRanges ? priceHistory.map(p => p.low) : prices;
   
   // Calculate technical indicators
+  const selected = new Set<IndicatorName>(options.indicators?.length ? options.indicators : INDICATOR_NAMES);
   const indicators: TechnicalIndicator[] = [];
+  const warnings: string[] = [];
   
-  // RSI (14-period)
-  const rsi = calculateRSI(prices, 14);
-  indicators.push({
-    name: 'RSI (14)',
-    value: rsi,
-    signal: rsiToSignal(rsi),
-    interpretation: rsiInterpretation(rsi),
-  });
+  const unavailable = hasRanges ? [] : RANGE_INDICATORS.filter(name => selected.has(name));
+  unavailable.forEach(name => selected.delete(name));
+  if (!hasRanges) {
+    const names = unavailable.map(name => RANGE_INDICATOR_LABELS[name]);
+    warnings.push(`These candles are built from closing prices only, with no high/low ranges, so ${[...names, 'pivot points'].join(', ').replace(/, ([^,]+)$/, ' and $1')} are left out. 4h and weekly candles, and daily candles with a lookback of up to 89, have real ranges.`);
+  }
+  if (selected.size === 0) {
+    throw new InsufficientDataError(`The selected indicators need high/low ranges, which these candles don't have. Use 4h or weekly candles, or daily candles with a lookback of up to 89.`);
+  }
   
-  // Moving Averages
-  const sma20 = calculateSMA(prices, 20);
-  const sma50 = calculateSMA(prices, Math.min(50, prices.length));
-  
-  indicators.push({
-    name: 'SMA 20',
-    value: sma20,
-    signal: currentPrice > sma20 ? 'buy' : 'sell',
-    interpretation: currentPrice > sma20 
-      ? 'Price above 20-day SMA (bullish)' 
-      : 'Price below 20-day SMA (bearish)',
-  });
+  // Moving averages are always computed since trend detection uses them
+  const shortPeriod = Math.min(spec.smaPeriods[0], prices.length);
+  const longPeriod = Math.min(spec.smaPeriods[1], prices.length);
+  const smaShort = calculateSMA(prices, shortPeriod);
+  const smaLong = calculateSMA(prices, longPeriod);
   
-  indicators.push({
-    name: 'SMA 50',
-    value: sma50,
-    signal: currentPrice > sma50 ? 'buy' : 'sell',
-    interpretation: currentPrice > sma50 
-      ? 'Price above 50-day SMA (bullish)' 
-      : 'Price below 50-day SMA (bearish)',
-  });
+  // RSI (14-period, shortened if the window is too small)
+  if (selected.has('rsi')) {
+    const rsiPeriod = Math.min(14, prices.length - 1);
+    const rsi = calculateRSI(prices, rsiPeriod);
+    indicators.push({
+      name: `RSI (${rsiPeriod})`,
+      value: rsi,
+      signal: rsiToSignal(rsi),
+      interpretation: rsiInterpretation(rsi),
+    });
+  }
+  
+  // Moving Averages
+  if (selected.has('sma')) {
+    indicators.push({
+      name: `SMA ${shortPeriod}`,
+      value: smaShort,
+      signal: currentPrice > smaShort ? 'buy' : 'sell',
+      interpretation: currentPrice > smaShort 
+        ? `Price above ${shortPeriod}-${spec.periodUnit} SMA (bullish)` 
+        : `Price below ${shortPeriod}-${spec.periodUnit} SMA (bearish)`,
+    });
+    
+    // Skip the long SMA when a short lookback collapses it onto the short one
+    if (longPeriod > shortPeriod) indicators.push({
+      name: `SMA ${longPeriod}`,
+      value: smaLong,
+      signal: currentPrice > smaLong ? 'buy' : 'sell',
+      interpretation: currentPrice > smaLong 
+        ? `Price above ${longPeriod}-${spec.periodUnit} SMA (bullish)` 
+        : `Price below ${longPeriod}-${spec.periodUnit} SMA (bearish)`,
+    });
+  }
   
   // MACD
-  const macd = calculateMACD(prices);
-  indicators.push({
-    name: 'MACD',
-    value: macd.histogram,
-    signal: macdToSignal(macd),
-    interpretation: macd.histogram > 0 
-      ? 'MACD histogram positive (bullish momentum)' 
-      : 'MACD histogram negative (bearish momentum)',
-  });
+  if (selected.has('macd')) {
+    const macd = calculateMACD(prices);
+    indicators.push({
+      name: 'MACD',
+      value: macd.histogram,
+      signal: macdToSignal(macd),
+      interpretation: macd.histogram > 0 
+        ? 'MACD histogram positive (bullish momentum)' 
+        : 'MACD histogram negative (bearish momentum)',
+    });
+  }
   
   // Volume trend
-  const volumeTrend = calculateVolumeTrend(volumes);
-  indicators.push({
-    name: 'Volume Trend',
-    value: volumeTrend,
-    signal: volumeTrend > 0 ? 'buy' : volumeTrend < -0.1 ? 'sell' : 'neutral',
-    interpretation: volumeTrend > 0.1 
-      ? 'Volume increasing (confirms trend)' 
-      : volumeTrend < -0.1 
-        ? 'Volume decreasing (weakening trend)' 
-        : 'Volume stable',
-  });
+  if (selected.has('volume')) {
+    const volumeTrend = calculateVolumeTrend(volumes);
+    indicators.push({
+      name: 'Volume Trend',
+      value: volumeTrend,
+      signal: volumeTrend > 0 ? 'buy' : volumeTrend < -0.1 ? 'sell' : 'neutral',
+      interpretation: volumeTrend > 0.1 
+        ? 'Volume increasing (confirms trend)' 
+        : volumeTrend < -0.1 
+          ? 'Volume decreasing (weakening trend)' 
+          : 'Volume stable',
+    });
+  }
+  
+  if (selected.has('bollinger')) indicators.push(bollingerIndicator(prices));
+  if (selected.has('stoch')) indicators.push(stochasticIndicator(highs, lows, prices));
+  if (selected.has('stochrsi')) indicators.push(stochRsiIndicator(prices));
+  if (selected.has('atr')) indicators.push(atrIndicator(highs, lows, prices, smaShort));
+  if (selected.has('obv')) indicators.push(obvIndicator(prices, volumes));
+  if (selected.has('adx')) indicators.push(adxIndicator(highs, lows, prices));
+  if (selected.has('vwap')) indicators.push(vwapIndicator(prices, volumes));
   
   // Calculate support and resistance
-  const { support, resistance } = calculateSupportResistance(prices);
+  const pivotPoints = hasRanges ? calculatePivotPoints(priceHistory[priceHistory.length - 2]) : undefined;
+  const { support, resistance } = calculateSupportResistance(highs, lows, currentPrice, pivotPoints);
   
   // Determine overall signal
   const signalScores = indicators.map(i => signalToScore(i.signal));
@@ -112,41 +293,118 @@ export async function generateTradingSignals(symbol: string): Promise<TradingSig
   const confidence = Math.max(0, Math.min(100, 100 - signalVariance * 20));
   
   // Determine trend
-  const trend = determineTrend(prices, sma20, sma50);
+  const trend = determineTrend(prices, smaShort, smaLong);
   
   // Determine volatility
-  const volatility = calculateVolatility(prices);
+  const volatility = calculateVolatility(highs, lows, prices, spec.hoursPerCandle);
   
   // Generate summary
   const summary = generateSummary(symbol, overallSignal, confidence, trend, indicators);
   
   return {
     symbol: symbol.toUpperCase(),
+    interval,
+    lookback: priceHistory.length,
     currentPrice,
+    vsCurrency: options.vsCurrency || 'usd',
     overallSignal,
     confidence: Math.round(confidence),
     indicators,
     supportLevel: support,
     resistanceLevel: resistance,
+    pivotPoints,
     trend,
     volatility,
     summary,
     generatedAt: new Date().toISOString(),
+    ...(warnings.length > 0 ? { warnings } : {}),
   };
 }
 
-async function fetchPriceHistory(symbol: string): Promise<PriceData[]> {
+export async function fetchPriceHistory(
+  symbol: string,
+  interval: SignalInterval,
+  lookback: number,
+  vsCurrency: VsCurrency = 'usd'
+): Promise<PriceData[]> {
   // Use CoinGecko for historical data
-  const coinId = symbolToCoinGeckoId(symbol);
+  return fetchCoinHistory(resolveCoinGeckoId(symbol), interval, lookback, vsCurrency);
+}
+
+/**
+ * Candles for a CoinGecko id, for callers that have already resolved the
+ * token (e.g. from its contract address).
+ */
+export async function fetchCoinHistory(
+  coinId: string,
+  interval: SignalInterval,
+  lookback: number,
+  vsCurrency: VsCurrency = 'usd'
+): Promise<PriceData[]> {
+  const spec = SIGNAL_INTERVALS[interval];
+  // One extra day so the oldest candle is complete
+  const days = Math.ceil(lookback * spec.hoursPerCandle / 24) + 1;
   
   try {
+    // market_chart supplies volumes and, where the OHLC endpoint is too coarse,
+    // the points candles are built from. Hourly points are served for up to
+    // 90 days, so daily candles within that window get a high/low from every
+    // hour they cover
+    const source = days <= HOURLY_MAX_DAYS ? 'hourly' : spec.source;
+    const points = await fetchMarketChart(coinId, days, source, vsCurrency);
+    let subCandles = pointsToCandles(points);
+    let ranged = spec.hoursPerCandle / (source === 'hourly' ? 1 : 24) >= MIN_RANGE_POINTS;
+    
+    // CoinGecko's OHLC endpoint returns 4h candles for up to 30 days; beyond
+    // that it drops to 4-day candles, which are too coarse to aggregate
+    const ohlcDays = OHLC_DAYS.find(d => d >= days);
+    if (spec.hoursPerCandle >= 4 && ohlcDays) {
+      try {
+        const ohlc = await fetchOhlc(coinId, ohlcDays, vsCurrency);
+        subCandles = withVolumes(ohlc, points);
+        ranged = true;
+      } catch (error: any) {
+        console.warn(`OHLC fetch failed for ${coinId}, building candles from market_chart:`, error.message);
+      }
+    }
+    
+    const candles = toCandles(subCandles, spec.hoursPerCandle).slice(-lookback);
+    return ranged ? candles : candles.map(candle => ({ ...candle, rangeEstimated: true }));
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new TokenNotFoundError(`Token '${coinId}' not found on CoinGecko`);
+    }
+    throw upstreamError(error, 'Failed to fetch price history');
+  }
+}
+
+// `days` values accepted by the OHLC endpoint that still return 4h candles
+const OHLC_DAYS = [7, 14, 30];
+
+// Longest window market_chart returns hourly points for
+const HOURLY_MAX_DAYS = 90;
+
+// Sampled prices a candle must span for its high and low to stand in for the
+// traded range; fewer (e.g. an hourly candle from hourly points) only give
+// two neighbouring closes
+const MIN_RANGE_POINTS = 4;
+
+interface MarketPoint {
+  timestamp: number;
+  price: number;
+  volume: number;
+}
+
+async function fetchMarketChart(coinId: string, days: number, source: 'hourly' | 'daily', vsCurrency: VsCurrency): Promise<MarketPoint[]> {
+  return cached('history', `coingecko:${coinId}:${vsCurrency}:${source}:${days}d`, async () => {
     const response = await axios.get(
       `https://api.coingecko.com/api/v3/coins/${coinId}/market_chart`,
       {
         params: {
-          vs_currency: 'usd',
-          days: 60, // 60 days of data
-          interval: 'daily',
+          vs_currency: vsCurrency,
+          days,
+          // CoinGecko returns hourly points automatically for 2-90 days
+          ...(source === 'daily' ? { interval: 'daily' } : {}),
         },
         timeout: 10000,
       }
@@ -160,30 +418,181 @@ async function fetchPriceHistory(symbol: string): Promise<PriceData[]> {
       price: p[1],
       volume: volumes[i]?.[1] || 0,
     }));
+  });
+}
+
+async function fetchOhlc(coinId: string, days: number, vsCurrency: VsCurrency): Promise<PriceData[]> {
+  return cached('history', `coingecko:${coinId}:${vsCurrency}:ohlc:${days}d`, async () => {
+    const response = await axios.get(
+      `https://api.coingecko.com/api/v3/coins/${coinId}/ohlc`,
+      {
+        params: { vs_currency: vsCurrency, days },
+        timeout: 10000,
+      }
+    );
+    
+    return response.data.map((c: number[]) => ({
+      timestamp: c[0],
+      open: c[1],
+      high: c[2],
+      low: c[3],
+      close: c[4],
+      volume: 0,
+    }));
+  });
+}
+
+// Turn market_chart points into sub-candles spanning the previous point to
+// this one, so aggregated candles get a high/low from every point they cover
+function pointsToCandles(points: MarketPoint[]): PriceData[] {
+  return points.map((point, i) => {
+    const open = i > 0 ? points[i - 1].price : point.price;
+    return {
+      timestamp: point.timestamp,
+      open,
+      high: Math.max(open, point.price),
+      low: Math.min(open, point.price),
+      close: point.price,
+      volume: point.volume,
+    };
+  });
+}
+
+// The OHLC endpoint has no volume: take the latest market_chart volume at or
+// before each candle's close
+function withVolumes(candles: PriceData[], points: MarketPoint[]): PriceData[] {
+  let j = 0;
+  return candles.map(candle => {
+    while (j + 1 < points.length && points[j + 1].timestamp <= candle.timestamp) j++;
+    return { ...candle, volume: points[j]?.volume || 0 };
+  });
+}
+
+// Aggregate sub-candles into candles of the given size. Buckets are keyed by
+// close time, and volume is the latest sub-candle's (CoinGecko volumes are
+// rolling 24h figures, not per-point) unless `sumVolumes` is set for sources
+// with per-candle volumes
+export function toCandles(subCandles: PriceData[], hoursPerCandle: number, sumVolumes = false): PriceData[] {
+  const bucketMs = hoursPerCandle * 60 * 60 * 1000;
+  const candles = new Map<number, PriceData>();
+  for (const sub of subCandles) {
+    const bucket = Math.floor((sub.timestamp - 1) / bucketMs);
+    const candle = candles.get(bucket);
+    candles.set(bucket, candle
+      ? {
+          timestamp: sub.timestamp,
+          open: candle.open,
+          high: Math.max(candle.high, sub.high),
+          low: Math.min(candle.low, sub.low),
+          close: sub.close,
+          volume: sumVolumes ? candle.volume + sub.volume : sub.volume,
+        }
+      : { ...sub });
+  }
+  return [...candles.values()];
+}
+
+// =============================================================================
+// DEX Candles
+// =============================================================================
+
+// GeckoTerminal serves at most this many candles per request
+const GECKOTERMINAL_MAX_CANDLES = 1000;
+
+/**
+ * The most liquid DexScreener pair trading `contractAddress` on `chain`.
+ */
+export async function findDexPair(contractAddress: string, chain: string): Promise<DexPair> {
+  const dexChain = dexScreenerChain(chain);
+  const address = contractAddress.toLowerCase();
+  
+  try {
+    const pairs = await fetchDexScreenerPairs(contractAddress);
+    const chainPairs = pairs.filter(p => p.chainId === dexChain);
+    if (chainPairs.length === 0) {
+      throw new TokenNotFoundError(`No trading pairs found for contract ${contractAddress} on ${chain}`);
+    }
+    const pair = chainPairs.reduce((a, b) => (a.liquidity?.usd || 0) >= (b.liquidity?.usd || 0) ? a : b);
+    
+    // The token may be either side of the pair
+    const isBase = pair.baseToken?.address?.toLowerCase() === address;
+    return {
+      address: pair.pairAddress,
+      dexId: pair.dexId,
+      baseSymbol: isBase ? pair.baseToken.symbol : pair.quoteToken.symbol,
+      quoteSymbol: isBase ? pair.quoteToken.symbol : pair.baseToken.symbol,
+      liquidityUsd: pair.liquidity?.usd || 0,
+      createdAt: pair.pairCreatedAt ? new Date(pair.pairCreatedAt).toISOString() : undefined,
+    };
   } catch (error: any) {
-    throw new Error(`Failed to fetch price history: ${error.message}`);
+    throw upstreamError(error, 'Failed to fetch pairs from DexScreener');
   }
 }
 
-function symbolToCoinGeckoId(symbol: string): string {
-  const mapping: Record<string, string> = {
-    'BTC': 'bitcoin',
-    'ETH': 'ethereum',
-    'SOL': 'solana',
-    'USDC': 'usd-coin',
-    'USDT': 'tether',
-    'LINK': 'chainlink',
-    'UNI': 'uniswap',
-    'AAVE': 'aave',
-    'ARB': 'arbitrum',
-    'OP': 'optimism',
-    'MATIC': 'matic-network',
-    'AVAX': 'avalanche-2',
-    'DOGE': 'dogecoin',
-    'SHIB': 'shiba-inu',
-    'PEPE': 'pepe',
-  };
-  return mapping[symbol.toUpperCase()] || symbol.toLowerCase();
+// GeckoTerminal timeframes the signal intervals are built from. Weekly
+// candles are aggregated from daily ones.
+const DEX_TIMEFRAMES: Record<SignalInterval, { timeframe: 'hour' | 'day'; aggregate: number; hours: number }> = {
+  'hourly': { timeframe: 'hour', aggregate: 1, hours: 1 },
+  '4h': { timeframe: 'hour', aggregate: 4, hours: 4 },
+  'daily': { timeframe: 'day', aggregate: 1, hours: 24 },
+  'weekly': { timeframe: 'day', aggregate: 1, hours: 24 },
+};
+
+/**
+ * The longest range one GeckoTerminal request covers for an interval; longer
+ * ranges would be cut short.
+ */
+export function maxDexRangeMs(interval: SignalInterval): number {
+  // One candle of the limit is spent on the partial candle at the start
+  return (GECKOTERMINAL_MAX_CANDLES - 1) * DEX_TIMEFRAMES[interval].hours * 60 * 60 * 1000;
+}
+
+/**
+ * USD candles for `contractAddress` from a pool's GeckoTerminal OHLCV,
+ * ending at `to`. Candles are keyed by close time like CoinGecko's; pools
+ * younger than the range simply return fewer.
+ */
+export async function fetchDexCandles(
+  poolAddress: string,
+  contractAddress: string,
+  chain: string,
+  interval: SignalInterval,
+  from: number,
+  to: number
+): Promise<PriceData[]> {
+  const network = geckoTerminalNetwork(chain);
+  const spec = DEX_TIMEFRAMES[interval];
+  const subCandleMs = spec.hours * 60 * 60 * 1000;
+  const limit = Math.min(Math.ceil((to - from) / subCandleMs) + 1, GECKOTERMINAL_MAX_CANDLES);
+  // Rounded up to the minute so repeated requests ending "now" share a cache entry
+  const before = Math.ceil(to / 60000) * 60;
+  
+  try {
+    const subCandles = await cached('history', `geckoterminal:${network}:${poolAddress}:${interval}:${before}:${limit}`, async () => {
+      const response = await axios.get(
+        `https://api.geckoterminal.com/api/v2/networks/${network}/pools/${poolAddress}/ohlcv/${spec.timeframe}`,
+        {
+          // `token` prices the candles in our token even when it is the
+          // pool's quote token
+          params: { aggregate: spec.aggregate, before_timestamp: before, limit, currency: 'usd', token: contractAddress },
+          timeout: 10000,
+        }
+      );
+      
+      // Newest first, timestamped by open time in seconds
+      const list: number[][] = response.data.data?.attributes?.ohlcv_list || [];
+      return list
+        .map(([t, open, high, low, close, volume]) => ({ timestamp: t * 1000 + subCandleMs, open, high, low, close, volume }))
+        .reverse();
+    });
+    
+    return interval === 'weekly' ? toCandles(subCandles, SIGNAL_INTERVALS.weekly.hoursPerCandle, true) : subCandles;
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new TokenNotFoundError(`Pool ${poolAddress} not found on ${network}`);
+    }
+    throw upstreamError(error, 'Failed to fetch candles from GeckoTerminal');
+  }
 }
 
 // Technical Analysis Functions
@@ -239,17 +648,62 @@ function calculateVolumeTrend(volumes: number[]): number {
   return previous > 0 ? (recent - previous) / previous : 0;
 }
 
-function calculateSupportResistance(prices: number[]): { support: number; resistance: number } {
-  const sorted = [...prices].sort((a, b) => a - b);
-  const low = sorted[Math.floor(sorted.length * 0.1)];
-  const high = sorted[Math.floor(sorted.length * 0.9)];
-  return { support: low, resistance: high };
+// Classic floor-trader pivots from the last completed candle
+function calculatePivotPoints(candle: PriceData): PivotPoints {
+  const pivot = (candle.high + candle.low + candle.close) / 3;
+  return {
+    pivot,
+    r1: 2 * pivot - candle.low,
+    r2: pivot + (candle.high - candle.low),
+    s1: 2 * pivot - candle.high,
+    s2: pivot - (candle.high - candle.low),
+  };
+}
+
+// Swing points: a high (low) that is the extreme of the `strength` candles on
+// either side of it
+function findSwingPoints(highs: number[], lows: number[], strength: number): { swingHighs: number[]; swingLows: number[] } {
+  const swingHighs: number[] = [];
+  const swingLows: number[] = [];
+  for (let i = strength; i < highs.length - strength; i++) {
+    const neighbours = [...Array(strength * 2 + 1).keys()].map(k => i - strength + k).filter(k => k !== i);
+    if (neighbours.every(k => highs[i] > highs[k])) swingHighs.push(highs[i]);
+    if (neighbours.every(k => lows[i] < lows[k])) swingLows.push(lows[i]);
+  }
+  return { swingHighs, swingLows };
 }
 
-function calculateVolatility(prices: number[]): 'low' | 'medium' | 'high' {
-  const returns = prices.slice(1).map((p, i) => (p - prices[i]) / prices[i]);
-  const variance = calculateVariance(returns);
-  const volatility = Math.sqrt(variance) * 100;
+// Nearest swing low below and swing high above the current price, falling
+// back to pivot levels when price has broken out of every swing
+function calculateSupportResistance(
+  highs: number[],
+  lows: number[],
+  currentPrice: number,
+  pivots?: PivotPoints
+): { support: number; resistance: number } {
+  const { swingHighs, swingLows } = findSwingPoints(highs, lows, 2);
+  const below = swingLows.filter(l => l < currentPrice);
+  const above = swingHighs.filter(h => h > currentPrice);
+  
+  const support = below.length > 0
+    ? Math.max(...below)
+    : (pivots ? [pivots.s1, pivots.s2] : []).find(l => l < currentPrice) ?? Math.min(...lows);
+  const resistance = above.length > 0
+    ? Math.min(...above)
+    : (pivots ? [pivots.r1, pivots.r2] : []).find(h => h > currentPrice) ?? Math.max(...highs);
+  
+  return { support, resistance };
+}
+
+function calculateVolatility(highs: number[], lows: number[], closes: number[], hoursPerCandle: number): 'low' | 'medium' | 'high' {
+  // Parkinson estimator from each candle's high/low range; falls back to
+  // close-to-close returns when the series carries no ranges
+  const logRanges = highs.map((h, i) => Math.log(h / lows[i]));
+  const variance = logRanges.some(r => r > 0)
+    ? logRanges.reduce((sum, r) => sum + r * r, 0) / (4 * Math.LN2 * logRanges.length)
+    : calculateVariance(closes.slice(1).map((p, i) => (p - closes[i]) / closes[i]));
+  // Scale per-candle volatility to daily terms so the thresholds hold for any interval
+  const volatility = Math.sqrt(variance * 24 / hoursPerCandle) * 100;
   
   if (volatility < 2) return 'low';
   if (volatility < 5) return 'medium';
@@ -271,6 +725,256 @@ function determineTrend(prices: number[], sma20: number, sma50: number): 'bullis
   return 'sideways';
 }
 
+function calculateBollingerBands(prices: number[], period: number, stdDevs: number): { upper: number; middle: number; lower: number } {
+  const slice = prices.slice(-period);
+  const middle = calculateSMA(slice, slice.length);
+  const stdDev = Math.sqrt(calculateVariance(slice));
+  return {
+    upper: middle + stdDevs * stdDev,
+    middle,
+    lower: middle - stdDevs * stdDev,
+  };
+}
+
+function calculateStochastic(highs: number[], lows: number[], closes: number[], period: number, smooth: number): { k: number; d: number } {
+  const kValues: number[] = [];
+  for (let end = closes.length - smooth + 1; end <= closes.length; end++) {
+    const high = Math.max(...highs.slice(end - period, end));
+    const low = Math.min(...lows.slice(end - period, end));
+    kValues.push(high === low ? 50 : ((closes[end - 1] - low) / (high - low)) * 100);
+  }
+  return { k: kValues[kValues.length - 1], d: calculateSMA(kValues, kValues.length) };
+}
+
+function calculateStochRSI(prices: number[], rsiPeriod: number, stochPeriod: number): number {
+  const rsiSeries: number[] = [];
+  for (let end = prices.length - stochPeriod + 1; end <= prices.length; end++) {
+    rsiSeries.push(calculateRSI(prices.slice(0, end), rsiPeriod));
+  }
+  const min = Math.min(...rsiSeries);
+  const max = Math.max(...rsiSeries);
+  return max === min ? 50 : ((rsiSeries[rsiSeries.length - 1] - min) / (max - min)) * 100;
+}
+
+function trueRanges(highs: number[], lows: number[], closes: number[]): number[] {
+  return closes.slice(1).map((_, i) => Math.max(
+    highs[i + 1] - lows[i + 1],
+    Math.abs(highs[i + 1] - closes[i]),
+    Math.abs(lows[i + 1] - closes[i])
+  ));
+}
+
+function calculateATR(highs: number[], lows: number[], closes: number[], period: number): number {
+  const ranges = trueRanges(highs, lows, closes);
+  return calculateSMA(ranges, Math.min(period, ranges.length));
+}
+
+function calculateOBV(closes: number[], volumes: number[]): number[] {
+  const obv = [0];
+  for (let i = 1; i < closes.length; i++) {
+    const direction = Math.sign(closes[i] - closes[i - 1]);
+    obv.push(obv[i - 1] + direction * volumes[i]);
+  }
+  return obv;
+}
+
+// Wilder's ADX with +DI/-DI
+function calculateADX(highs: number[], lows: number[], closes: number[], period: number): { adx: number; plusDI: number; minusDI: number } {
+  const ranges = trueRanges(highs, lows, closes);
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    const up = highs[i] - highs[i - 1];
+    const down = lows[i - 1] - lows[i];
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+  
+  const wilder = (values: number[]): number[] => {
+    const smoothed = [values.slice(0, period).reduce((a, b) => a + b, 0)];
+    for (let i = period; i < values.length; i++) {
+      const prev = smoothed[smoothed.length - 1];
+      smoothed.push(prev - prev / period + values[i]);
+    }
+    return smoothed;
+  };
+  
+  const tr = wilder(ranges);
+  const plus = wilder(plusDM);
+  const minus = wilder(minusDM);
+  const dx: number[] = [];
+  let plusDI = 0;
+  let minusDI = 0;
+  for (let i = 0; i < tr.length; i++) {
+    plusDI = tr[i] > 0 ? (plus[i] / tr[i]) * 100 : 0;
+    minusDI = tr[i] > 0 ? (minus[i] / tr[i]) * 100 : 0;
+    const sum = plusDI + minusDI;
+    dx.push(sum > 0 ? (Math.abs(plusDI - minusDI) / sum) * 100 : 0);
+  }
+  
+  return { adx: calculateSMA(dx, Math.min(period, dx.length)), plusDI, minusDI };
+}
+
+function calculateVWAP(prices: number[], volumes: number[]): number {
+  const totalVolume = volumes.reduce((a, b) => a + b, 0);
+  if (totalVolume === 0) return calculateSMA(prices, prices.length);
+  return prices.reduce((sum, p, i) => sum + p * volumes[i], 0) / totalVolume;
+}
+
+// Indicator builders
+
+function bollingerIndicator(prices: number[]): TechnicalIndicator {
+  const period = Math.min(20, prices.length);
+  const bands = calculateBollingerBands(prices, period, 2);
+  const current = prices[prices.length - 1];
+  const width = bands.upper - bands.lower;
+  const percentB = width > 0 ? (current - bands.lower) / width : 0.5;
+  
+  let signal: SignalStrength = 'neutral';
+  let interpretation = 'Price inside the bands';
+  if (percentB < 0) {
+    signal = 'strong_buy';
+    interpretation = 'Price below lower band - oversold, potential reversal';
+  } else if (percentB < 0.2) {
+    signal = 'buy';
+    interpretation = 'Price near lower band';
+  } else if (percentB > 1) {
+    signal = 'strong_sell';
+    interpretation = 'Price above upper band - overbought, potential reversal';
+  } else if (percentB > 0.8) {
+    signal = 'sell';
+    interpretation = 'Price near upper band';
+  }
+  
+  return { name: `Bollinger %B (${period}, 2)`, value: percentB, signal, interpretation };
+}
+
+function stochasticIndicator(highs: number[], lows: number[], closes: number[]): TechnicalIndicator {
+  const period = Math.min(14, closes.length - 3);
+  const { k, d } = calculateStochastic(highs, lows, closes, period, 3);
+  
+  let signal: SignalStrength = 'neutral';
+  let interpretation = 'Close mid-range of recent highs and lows';
+  if (k < 20) {
+    signal = k > d ? 'strong_buy' : 'buy';
+    interpretation = k > d
+      ? 'Oversold with %K crossing above %D (bullish reversal)'
+      : 'Close near the bottom of the recent range (oversold)';
+  } else if (k > 80) {
+    signal = k < d ? 'strong_sell' : 'sell';
+    interpretation = k < d
+      ? 'Overbought with %K crossing below %D (bearish reversal)'
+      : 'Close near the top of the recent range (overbought)';
+  }
+  
+  return { name: `Stochastic %K (${period}, 3)`, value: k, signal, interpretation };
+}
+
+function stochRsiIndicator(prices: number[]): TechnicalIndicator {
+  const rsiPeriod = Math.min(14, Math.floor(prices.length / 2));
+  const stochPeriod = Math.min(14, prices.length - rsiPeriod);
+  const stochRsi = calculateStochRSI(prices, rsiPeriod, stochPeriod);
+  
+  let signal: SignalStrength = 'neutral';
+  let interpretation = 'Neutral momentum';
+  if (stochRsi < 5) {
+    signal = 'strong_buy';
+    interpretation = 'RSI at the bottom of its recent range - extremely oversold';
+  } else if (stochRsi < 20) {
+    signal = 'buy';
+    interpretation = 'RSI near the bottom of its recent range (oversold)';
+  } else if (stochRsi > 95) {
+    signal = 'strong_sell';
+    interpretation = 'RSI at the top of its recent range - extremely overbought';
+  } else if (stochRsi > 80) {
+    signal = 'sell';
+    interpretation = 'RSI near the top of its recent range (overbought)';
+  }
+  
+  return { name: `Stochastic RSI (${rsiPeriod}, ${stochPeriod})`, value: stochRsi, signal, interpretation };
+}
+
+function atrIndicator(highs: number[], lows: number[], closes: number[], sma: number): TechnicalIndicator {
+  const period = Math.min(14, Math.floor((closes.length - 1) / 2));
+  const atr = calculateATR(highs, lows, closes, period);
+  const priorAtr = calculateATR(highs.slice(0, -period), lows.slice(0, -period), closes.slice(0, -period), period);
+  const current = closes[closes.length - 1];
+  const expanding = priorAtr > 0 && atr > priorAtr * 1.2;
+  
+  // ATR has no direction of its own: expanding ranges confirm whichever side
+  // of the moving average price is on
+  let signal: SignalStrength = 'neutral';
+  let interpretation = 'Volatility stable or contracting (no breakout)';
+  if (expanding && current > sma) {
+    signal = 'buy';
+    interpretation = 'Volatility expanding with price above SMA (bullish breakout)';
+  } else if (expanding && current < sma) {
+    signal = 'sell';
+    interpretation = 'Volatility expanding with price below SMA (bearish breakdown)';
+  }
+  
+  return { name: `ATR (${period})`, value: atr, signal, interpretation };
+}
+
+function obvIndicator(closes: number[], volumes: number[]): TechnicalIndicator {
+  const obv = calculateOBV(closes, volumes);
+  const window = Math.min(10, obv.length - 1);
+  const obvChange = obv[obv.length - 1] - obv[obv.length - 1 - window];
+  const priceChange = closes[closes.length - 1] - closes[closes.length - 1 - window];
+  const avgVolume = calculateSMA(volumes, window);
+  const significant = avgVolume > 0 && Math.abs(obvChange) > avgVolume * 0.5;
+  
+  let signal: SignalStrength = 'neutral';
+  let interpretation = 'On-balance volume flat';
+  if (significant && obvChange > 0) {
+    signal = priceChange < 0 ? 'strong_buy' : 'buy';
+    interpretation = priceChange < 0
+      ? 'Accumulation while price falls (bullish divergence)'
+      : 'Volume flowing in (accumulation)';
+  } else if (significant && obvChange < 0) {
+    signal = priceChange > 0 ? 'strong_sell' : 'sell';
+    interpretation = priceChange > 0
+      ? 'Distribution while price rises (bearish divergence)'
+      : 'Volume flowing out (distribution)';
+  }
+  
+  return { name: 'OBV', value: obv[obv.length - 1], signal, interpretation };
+}
+
+function adxIndicator(highs: number[], lows: number[], closes: number[]): TechnicalIndicator {
+  const period = Math.min(14, Math.floor((closes.length - 1) / 2));
+  const { adx, plusDI, minusDI } = calculateADX(highs, lows, closes, period);
+  
+  let signal: SignalStrength = 'neutral';
+  let interpretation = 'Weak or no trend';
+  if (adx >= 25) {
+    const strong = adx >= 40;
+    if (plusDI > minusDI) {
+      signal = strong ? 'strong_buy' : 'buy';
+      interpretation = `${strong ? 'Very strong' : 'Strong'} uptrend (+DI above -DI)`;
+    } else {
+      signal = strong ? 'strong_sell' : 'sell';
+      interpretation = `${strong ? 'Very strong' : 'Strong'} downtrend (-DI above +DI)`;
+    }
+  }
+  
+  return { name: `ADX (${period})`, value: adx, signal, interpretation };
+}
+
+function vwapIndicator(prices: number[], volumes: number[]): TechnicalIndicator {
+  const vwap = calculateVWAP(prices, volumes);
+  const current = prices[prices.length - 1];
+  
+  return {
+    name: 'VWAP',
+    value: vwap,
+    signal: current > vwap ? 'buy' : 'sell',
+    interpretation: current > vwap
+      ? 'Price above volume-weighted average (buyers in control)'
+      : 'Price below volume-weighted average (sellers in control)',
+  };
+}
+
 // Signal conversion functions
 
 function rsiToSignal(rsi: number): SignalStrength {
@@ -0,0 +1,145 @@
+import { randomBytes } from 'node:crypto';
+import { config } from '../config.js';
+import { UnauthorizedError, toApiError } from '../errors.js';
+import { getTokenPrice, type TokenPrice, type TokenPriceRequest } from './price.service.js';
+import type { ErrorCode } from '../types.js';
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+export type StreamEvent =
+  | { type: 'price'; request: TokenPriceRequest; data: TokenPrice }
+  | { type: 'error'; request: TokenPriceRequest; error: string; code: ErrorCode }
+  | { type: 'end'; reason: string };
+
+export interface StreamSubscription {
+  id: string;
+  requests: TokenPriceRequest[];
+  intervalMs: number;          // Longest gap between updates for each token
+  expiresAt: number;
+  listener?: (event: StreamEvent) => void; // The connected stream, if any
+}
+
+// Subscriptions live in memory: they are short-lived and end with the process
+const subscriptions = new Map<string, StreamSubscription>();
+
+export function createSubscription(requests: TokenPriceRequest[], intervalSeconds: number, durationMinutes: number): { token: string; subscription: StreamSubscription } {
+  // The id is the bearer secret for the stream, so it must be unguessable
+  const id = randomBytes(24).toString('base64url');
+  const now = Date.now();
+  const subscription: StreamSubscription = {
+    id,
+    requests,
+    intervalMs: intervalSeconds * 1000,
+    expiresAt: now + durationMinutes * 60 * 1000,
+  };
+  subscriptions.set(id, subscription);
+  // Runs whether or not a stream ever attaches, so unused subscriptions don't
+  // pile up while the polling loop is idle
+  setTimeout(() => expire(id), subscription.expiresAt - now).unref();
+  return { token: id, subscription };
+}
+
+function expire(id: string): void {
+  const subscription = subscriptions.get(id);
+  if (!subscription) return;
+  subscription.listener?.({ type: 'end', reason: 'Subscription expired' });
+  deleteSubscription(id);
+}
+
+export function deleteSubscription(id: string): void {
+  const subscription = subscriptions.get(id);
+  if (subscription) {
+    detach(subscription);
+    subscriptions.delete(id);
+  }
+}
+
+export function findSubscription(token: string): StreamSubscription {
+  const subscription = subscriptions.get(token);
+  if (!subscription || subscription.expiresAt <= Date.now()) {
+    throw new UnauthorizedError('Stream subscription has expired or does not exist');
+  }
+  return subscription;
+}
+
+// =============================================================================
+// Shared Polling Loop
+// =============================================================================
+
+// Every connected subscription to the same token shares one upstream poll
+export const priceKey = (request: TokenPriceRequest): string => request.contractAddress && request.chain
+  ? `contract:${request.chain.toLowerCase()}:${request.contractAddress.toLowerCase()}${request.pairAddress ? `:${request.pairAddress.toLowerCase()}` : ''}`
+  : `symbol:${(request.symbol || '').toUpperCase()}`;
+
+interface Watcher {
+  request: TokenPriceRequest;
+  subscribers: Set<StreamSubscription>;
+  polledAt: number;            // When the last poll started (0 before the first)
+  polling: boolean;
+  latest?: StreamEvent;        // The last poll's result, sent to streams that attach in between
+}
+
+const watchers = new Map<string, Watcher>();
+let loop: NodeJS.Timeout | null = null;
+
+/**
+ * Start pushing updates for `subscription` to `listener`. A subscription has
+ * at most one connected stream: attaching again replaces the previous one.
+ */
+export function attach(subscription: StreamSubscription, listener: (event: StreamEvent) => void): void {
+  if (subscription.listener) {
+    subscription.listener({ type: 'end', reason: 'Replaced by a newer connection' });
+    detach(subscription);
+  }
+  subscription.listener = listener;
+  for (const request of subscription.requests) {
+    const key = priceKey(request);
+    const watcher = watchers.get(key) || { request, subscribers: new Set(), polledAt: 0, polling: false };
+    watcher.subscribers.add(subscription);
+    watchers.set(key, watcher);
+    if (watcher.latest) listener(watcher.latest);
+  }
+  if (!loop) {
+    loop = setInterval(tick, config.stream.tickMs);
+    loop.unref();
+  }
+}
+
+export function detach(subscription: StreamSubscription): void {
+  subscription.listener = undefined;
+  for (const [key, watcher] of watchers) {
+    watcher.subscribers.delete(subscription);
+    if (watcher.subscribers.size === 0) watchers.delete(key);
+  }
+  if (watchers.size === 0 && loop) {
+    clearInterval(loop);
+    loop = null;
+  }
+}
+
+// Each token is polled on one schedule, as often as its most frequent
+// subscriber asks, and every result goes to all of its subscribers
+function tick(): void {
+  const now = Date.now();
+  
+  for (const watcher of watchers.values()) {
+    const intervalMs = Math.min(...[...watcher.subscribers].map(s => s.intervalMs));
+    if (watcher.polling || now < watcher.polledAt + intervalMs) continue;
+    
+    watcher.polling = true;
+    watcher.polledAt = now;
+    getTokenPrice(watcher.request)
+      .then((data): StreamEvent => ({ type: 'price', request: watcher.request, data }))
+      .catch((error): StreamEvent => {
+        const apiError = toApiError(error);
+        return { type: 'error', request: watcher.request, error: apiError.message, code: apiError.code };
+      })
+      .then(event => {
+        watcher.latest = event;
+        for (const subscription of watcher.subscribers) subscription.listener?.(event);
+      })
+      .finally(() => { watcher.polling = false; });
+  }
+}
@@ -1,40 +1,108 @@
-// x402 types for TypeScript
-export interface PaymentOption {
-  scheme: string;
-  price: string;
-  network: string;
-  payTo: string;
-}
+import type { Request, RequestHandler } from 'express';
+import type { HTTPRequestContext } from '@x402/core/server';
+import type { Network } from '@x402/core/types';
+
+// Fixed price, or one computed from the incoming request (e.g. per-token pricing)
+export type RoutePrice = `$${string}` | ((context: HTTPRequestContext) => `$${string}`);
 
-export interface BazaarExtension {
-  info: {
-    input?: {
-      type: string;
-      method: string;
-      queryParams?: Record<string, unknown>;
-      pathParams?: Record<string, string>;
-    };
-    inputSchema?: Record<string, unknown>;
-    output?: {
-      type: string;
-      example: unknown;
-    };
-    outputSchema?: Record<string, unknown>;
+// A way of paying for every route: scheme, network and optionally a token other
+// than the scheme's default stablecoin
+export interface PaymentMethod {
+  scheme: string;              // e.g. 'exact'
+  network: Network;            // CAIP-2, e.g. 'eip155:8453'
+  payTo?: string;              // Defaults to PAY_TO_ADDRESS
+  asset?: {
+    address: string;
+    decimals: number;
+    name: string;              // EIP-712 domain name and version of the token
+    version: string;
   };
 }
 
-export interface RouteConfig {
-  accepts: PaymentOption[];
+export interface SchemaProperty {
+  type: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
   description?: string;
-  mimeType?: string;
-  extensions?: {
-    bazaar?: BazaarExtension;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: Record<string, unknown>;
+  default?: unknown;
+}
+
+export type InputSchema = {
+  properties: Record<string, SchemaProperty>;
+  required?: string[];
+};
+
+// A paid skill, declared once. The x402 payment config, Bazaar discovery
+// metadata, `/` endpoint list and request validation are generated from it.
+export interface SkillRoute {
+  method: 'GET' | 'POST';
+  path: string;                // Express-style, e.g. '/api/signals/:symbol'
+  price: RoutePrice;
+  listedPrice?: `$${string}`;  // Shown in listings when `price` is dynamic
+  priceUnit?: string;          // What the listed price is charged per (defaults to 'call')
+  summary: string;             // Short label for the endpoint list
+  description: string;         // Bazaar description
+  input: Record<string, unknown>; // Example request: path, query or body params
+  inputSchema: InputSchema;
+  validate?: (req: Request) => FieldError[]; // Checks that span fields, run after inputSchema
+  complexity?: (context: HTTPRequestContext) => number; // Units of work, for complexity pricing rules
+  creditPurchase?: boolean;    // Sells session credits: exempt from pricing rules, can't be paid with credits
+  output: {
+    example: unknown;
+    schema?: Record<string, unknown>;
   };
+  handler: RequestHandler;
+}
+
+export interface CacheInfo {
+  hit: boolean;       // true if every upstream lookup was served from cache
+  ageSeconds: number; // age of the oldest cached data used
+}
+
+// One invalid request parameter, as reported in a 400 response
+export interface FieldError {
+  field: string;
+  location: 'path' | 'query' | 'body';
+  message: string;
 }
 
+// A token a symbol could refer to, as listed in an AMBIGUOUS_SYMBOL response
+export interface TokenCandidate {
+  id: string;                          // CoinGecko id, accepted wherever a symbol is
+  symbol: string;
+  name: string;
+  platforms: Record<string, string>;   // Contract address by chain
+}
+
+// Machine-readable error codes returned alongside `error` (see src/errors.ts)
+export type ErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_ADDRESS'
+  | 'UNSUPPORTED_CHAIN'
+  | 'UNAUTHORIZED'
+  | 'INSUFFICIENT_CREDIT'
+  | 'TOKEN_NOT_FOUND'
+  | 'AMBIGUOUS_SYMBOL'
+  | 'INSUFFICIENT_DATA'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'REQUEST_TIMEOUT'
+  | 'INTERNAL_ERROR';
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ErrorCode;
+  details?: FieldError[];
+  candidates?: TokenCandidate[];
+  cache?: CacheInfo;
   timestamp: string;
 }
@@ -0,0 +1,176 @@
+import type { Request } from 'express';
+import type { TokenPriceRequest } from './services/price.service.js';
+import type { FieldError, SchemaProperty, SkillRoute } from './types.js';
+
+const EVM_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+const EVM_POOL_ID = /^0x[a-fA-F0-9]{64}$/;
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// The subset of JSON Schema used for array items: a plain property, a list of
+// `oneOf` alternatives, or an object with properties of its own
+type ItemSchema = Partial<SchemaProperty> & {
+  oneOf?: ItemSchema[];
+  properties?: Record<string, ItemSchema>;
+  required?: string[];
+};
+
+/**
+ * Check a request against its route's declared inputSchema. Path and query
+ * values arrive as strings, so numeric and boolean types are checked on their
+ * parsed value. Only the subset of JSON Schema used by our routes is supported.
+ */
+export function validateRequest(route: SkillRoute, req: Request): FieldError[] {
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(m => m[1]);
+  const body = req.body && typeof req.body === 'object' ? req.body : {};
+  const errors: FieldError[] = [];
+  
+  for (const [field, schema] of Object.entries(route.inputSchema.properties)) {
+    const location = pathParams.includes(field) ? 'path' : route.method === 'POST' ? 'body' : 'query';
+    const value = location === 'path' ? req.params[field] : location === 'body' ? body[field] : req.query[field];
+    
+    if (value === undefined || value === '') {
+      if (route.inputSchema.required?.includes(field)) {
+        errors.push({ field, location, message: 'is required' });
+      }
+      continue;
+    }
+    
+    const message = validateValue(value, schema, location !== 'body');
+    if (message) {
+      errors.push({ field, location, message });
+    } else if (Array.isArray(value) && schema.items) {
+      value.forEach((item, i) => errors.push(...itemErrors(item, schema.items as ItemSchema, `${field}[${i}]`, location)));
+    }
+  }
+  
+  // Cross-field rules only make sense once each field is well-formed
+  if (errors.length === 0 && route.validate) {
+    errors.push(...route.validate(req));
+  }
+  
+  return errors;
+}
+
+/**
+ * Check that a token contract address is well-formed for its chain (base58
+ * on Solana, 0x-prefixed hex elsewhere).
+ */
+export function contractAddressErrors(field: string, location: FieldError['location'], address: unknown, chain: unknown): FieldError[] {
+  const valid = chain === 'solana' ? SOLANA_ADDRESS.test(String(address)) : EVM_ADDRESS.test(String(address));
+  return valid ? [] : [{ field, location, message: `must be a ${chain} token address` }];
+}
+
+/**
+ * Check that a pinned DEX pair is well-formed for its chain: a pair address,
+ * or on EVM chains a 32-byte pool id (Uniswap v4 pools have no address).
+ */
+export function pairAddressErrors(field: string, location: FieldError['location'], address: unknown, chain: unknown): FieldError[] {
+  const value = String(address);
+  const valid = chain === 'solana' ? SOLANA_ADDRESS.test(value) : EVM_ADDRESS.test(value) || EVM_POOL_ID.test(value);
+  return valid ? [] : [{ field, location, message: `must be a ${chain} pair address` }];
+}
+
+/**
+ * Check one token of a batch price or stream request: it needs a symbol or a
+ * contract address and chain, and its addresses must be well-formed.
+ */
+export function tokenRequestErrors(field: string, location: FieldError['location'], token: TokenPriceRequest): FieldError[] {
+  if (!token.symbol && !(token.contractAddress && token.chain)) {
+    return [{ field, location, message: 'needs a symbol or a contractAddress and chain' }];
+  }
+  if (token.pairAddress && !(token.contractAddress && token.chain)) {
+    return [{ field: `${field}.pairAddress`, location, message: 'requires contractAddress and chain' }];
+  }
+  return [
+    ...(token.contractAddress && token.chain
+      ? contractAddressErrors(`${field}.contractAddress`, location, token.contractAddress, token.chain)
+      : []),
+    ...(token.pairAddress ? pairAddressErrors(`${field}.pairAddress`, location, token.pairAddress, token.chain) : []),
+  ];
+}
+
+// JSON type names, as used by `type` in a schema
+function jsonType(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function itemErrors(value: unknown, schema: ItemSchema, field: string, location: FieldError['location']): FieldError[] {
+  if (schema.oneOf) {
+    const attempts = schema.oneOf.map(option => itemErrors(value, option, field, location));
+    if (attempts.some(errors => errors.length === 0)) return [];
+    // Explain against the alternative of the same type, if there is one
+    const sameType = schema.oneOf.findIndex(option =>
+      option.type === jsonType(value) || (option.type === 'integer' && typeof value === 'number'));
+    if (sameType !== -1) return attempts[sameType];
+    const names = schema.oneOf.map(option => option.type ?? 'value').map(type => `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`);
+    return [{ field, location, message: `must be ${names.join(' or ')}` }];
+  }
+  
+  if (schema.type) {
+    const message = validateValue(value, schema as SchemaProperty, false);
+    if (message) return [{ field, location, message }];
+  }
+  
+  const errors: FieldError[] = [];
+  if (schema.properties && typeof value === 'object' && value !== null) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push({ field: `${field}.${key}`, location, message: 'is required' });
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (object[key] !== undefined) {
+        errors.push(...itemErrors(object[key], property, `${field}.${key}`, location));
+      }
+    }
+  }
+  return errors;
+}
+
+function validateValue(value: unknown, schema: SchemaProperty, fromString: boolean): string | null {
+  if (Array.isArray(value) && schema.type !== 'array') {
+    return 'must be a single value';
+  }
+  
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      const n = fromString ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n) || (fromString && String(value).trim() === '')) {
+        return `must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(n)) return 'must be an integer';
+      if (schema.minimum !== undefined && n < schema.minimum) return `must be at least ${schema.minimum}`;
+      if (schema.maximum !== undefined && n > schema.maximum) return `must be at most ${schema.maximum}`;
+      break;
+    }
+    case 'boolean':
+      if (fromString ? !['true', 'false'].includes(String(value)) : typeof value !== 'boolean') {
+        return 'must be true or false';
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) return 'must be an array';
+      if (schema.minItems !== undefined && value.length < schema.minItems) return `must contain at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`;
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return `must contain at most ${schema.maxItems} items`;
+      break;
+    case 'object':
+      if (typeof value !== 'object' || value === null) return 'must be an object';
+      break;
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string';
+      if (schema.minLength !== undefined && value.length < schema.minLength) return `must be at least ${schema.minLength} characters`;
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) return `must be at most ${schema.maxLength} characters`;
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) return `must match pattern ${schema.pattern}`;
+      break;
+  }
+  
+  if (schema.enum && !schema.enum.map(String).includes(String(value))) {
+    return `must be one of: ${schema.enum.join(', ')}`;
+  }
+  
+  return null;
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { runBacktest, type BacktestFixture } from '../src/services/backtest.service.js';
+
+// A seeded random walk with real OHLC ranges, so every indicator runs and the
+// stats below only move when the indicator or scoring logic does
+const fixture: BacktestFixture = JSON.parse(
+  readFileSync(new URL('../fixtures/synthetic-daily.json', import.meta.url), 'utf8')
+);
+
+describe('runBacktest', () => {
+  it('replays the recorded fixture', () => {
+    const result = runBacktest(fixture.symbol, fixture.candles, { interval: fixture.interval });
+    
+    assert.equal(result.candles, 364);
+    assert.equal(result.window, 60);
+    assert.equal(result.signalsEvaluated, 304);
+    assert.equal(result.strategy.equityCurve.length, 305);
+    
+    const counts = Object.fromEntries(Object.entries(result.byClass).map(([signal, stats]) => [signal, stats.count]));
+    assert.deepEqual(counts, { strong_buy: 0, buy: 5, neutral: 260, sell: 39, strong_sell: 0 });
+    assert.equal(result.hitRate, 47.73);
+    assert.equal(result.strategy.totalReturn, -4.7067);
+    assert.equal(result.strategy.maxDrawdown, 4.94);
+  });
+  
+  it('measures buy-and-hold from the first scored candle', () => {
+    const result = runBacktest(fixture.symbol, fixture.candles, { interval: fixture.interval, window: 30 });
+    const closes = fixture.candles.map(c => c.close);
+    const expected = (closes[closes.length - 1] / closes[29] - 1) * 100;
+    
+    assert.ok(Math.abs(result.strategy.buyAndHoldReturn - expected) < 1e-4);
+    assert.equal(result.signalsEvaluated, closes.length - 30);
+  });
+  
+  it('rejects a series shorter than the window and horizon', () => {
+    assert.throws(
+      () => runBacktest(fixture.symbol, fixture.candles.slice(0, 60), { interval: 'daily', window: 60 }),
+      { name: 'InsufficientDataError' }
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cached, withCacheInfo } from '../src/services/cache.service.js';
+
+describe('cached', () => {
+  it('shares one fetch between concurrent misses', async () => {
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return 3000;
+    };
+    
+    const values = await Promise.all(Array.from({ length: 5 }, () => cached('price', 'test:dedupe', fetcher)));
+    
+    assert.equal(calls, 1);
+    assert.deepEqual(values, [3000, 3000, 3000, 3000, 3000]);
+  });
+  
+  it('serves later lookups from the cache', async () => {
+    await cached('price', 'test:hit', async () => 1);
+    const { result, cache } = await withCacheInfo(() => cached('price', 'test:hit', async () => 2));
+    
+    assert.equal(result, 1);
+    assert.equal(cache.hit, true);
+  });
+  
+  it('rejects every waiter on failure and fetches again next time', async () => {
+    let calls = 0;
+    const failing = async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      throw new Error('upstream down');
+    };
+    
+    const results = await Promise.allSettled([
+      cached('price', 'test:failure', failing),
+      cached('price', 'test:failure', failing),
+    ]);
+    assert.equal(calls, 1);
+    assert.ok(results.every(r => r.status === 'rejected'));
+    
+    assert.equal(await cached('price', 'test:failure', async () => 42), 42);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InsufficientCreditError, UnauthorizedError } from '../src/errors.js';
+import { batchPricesRoute, priceRoute } from '../src/routes/price.route.js';
+import { createSession, debit, findSession, refund, summarizeSession } from '../src/services/credits.service.js';
+import { routeKey } from './helpers.js';
+
+const PRICE = routeKey(priceRoute);
+const BATCH = routeKey(batchPricesRoute);
+
+describe('credit sessions', () => {
+  it('debits calls from the balance and tracks usage per route', () => {
+    const { token, session } = createSession('$1');
+    assert.equal(findSession(token), session);
+    
+    debit(session, PRICE, '$0.001');
+    debit(session, PRICE, '$0.001');
+    debit(session, BATCH, '$0.0015');
+    
+    const summary = summarizeSession(session);
+    assert.equal(summary.balance, '$0.9965');
+    assert.equal(summary.spent, '$0.0035');
+    assert.deepEqual(summary.usage, [
+      { route: 'GET /api/price', calls: 2, spent: '$0.002' },
+      { route: 'POST /api/prices', calls: 1, spent: '$0.0015' },
+    ]);
+  });
+  
+  it('refunds a failed call in full', () => {
+    const { session } = createSession('$0.01');
+    debit(session, PRICE, '$0.003');
+    refund(session, PRICE, '$0.003');
+    
+    const summary = summarizeSession(session);
+    assert.equal(summary.balance, '$0.01');
+    assert.equal(summary.spent, '$0');
+    assert.deepEqual(summary.usage, []);
+  });
+  
+  it('draws nothing when the balance cannot cover a call', () => {
+    const { session } = createSession('$0.002');
+    debit(session, PRICE, '$0.0015');
+    
+    assert.throws(() => debit(session, PRICE, '$0.001'), InsufficientCreditError);
+    assert.equal(summarizeSession(session).balance, '$0.0005');
+  });
+  
+  it('rejects tampered tokens', () => {
+    const { token } = createSession('$1');
+    const [id] = token.split('.');
+    
+    assert.throws(() => findSession(`${id}.forged`), UnauthorizedError);
+  });
+});
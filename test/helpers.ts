@@ -0,0 +1,54 @@
+import { encodePaymentSignatureHeader } from '@x402/core/http';
+import type { HTTPAdapter, HTTPRequestContext } from '@x402/core/server';
+import type { PaymentPayload } from '@x402/core/types';
+import { config } from '../src/config.js';
+import type { SkillRoute } from '../src/types.js';
+
+export const PARTNER = '0x0000000000000000000000000000000000000001'; // 40% off in pricing.example.json
+export const PAYER = '0x00000000000000000000000000000000000000aa';
+
+// USDC on Base Sepolia, the default network
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+// Ledger entries and credit usage are keyed by method and Express path
+export const routeKey = (route: SkillRoute) => `${route.method} ${route.path}`;
+
+// A payment for `amount` USDC atomic units (6 decimals), signed by `from`
+export function paymentHeader(amount: string, from: string = PAYER): string {
+  const payment: PaymentPayload = {
+    x402Version: 2,
+    resource: { url: 'http://localhost/api/price', description: 'Token price data', mimeType: 'application/json' },
+    accepted: {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      asset: USDC,
+      amount,
+      payTo: config.payToAddress,
+      maxTimeoutSeconds: 60,
+      extra: {},
+    },
+    payload: { authorization: { from } },
+  };
+  return encodePaymentSignatureHeader(payment);
+}
+
+// The request context the payment middleware prices a request with
+export function requestContext(request: {
+  path?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  paymentHeader?: string;
+} = {}): HTTPRequestContext {
+  const { path = '/', query = {}, headers = {}, paymentHeader } = request;
+  const adapter: HTTPAdapter = {
+    getHeader: (name) => Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1],
+    getMethod: () => 'GET',
+    getPath: () => path,
+    getUrl: () => `http://localhost${path}`,
+    getAcceptHeader: () => 'application/json',
+    getUserAgent: () => 'node-test',
+    getQueryParams: () => query,
+    getQueryParam: (name) => query[name],
+  };
+  return { adapter, path, method: 'GET', paymentHeader };
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodePaymentResponseHeader } from '@x402/core/http';
+import { priceRoute } from '../src/routes/price.route.js';
+import { creditRequestEntry, paidRequestEntry, recordEntry, revenueReport, settledCallCount } from '../src/services/ledger.service.js';
+import { PAYER, paymentHeader, routeKey } from './helpers.js';
+
+const ROUTE = routeKey(priceRoute);
+
+const paid = (overrides: Partial<Parameters<typeof paidRequestEntry>[0]> = {}) => paidRequestEntry({
+  route: ROUTE,
+  paymentHeader: paymentHeader('1000'),
+  verified: true,
+  status: 200,
+  latencyMs: 120,
+  ...overrides,
+});
+
+describe('paidRequestEntry', () => {
+  it('records a settled payment with its price and transaction', () => {
+    const entry = paid({
+      paymentResponseHeader: encodePaymentResponseHeader({ success: true, transaction: '0xabc', network: 'eip155:84532', payer: PAYER }),
+    });
+    
+    assert.equal(entry.route, 'GET /api/price');
+    assert.equal(entry.outcome, 'settled');
+    assert.equal(entry.payer, PAYER);
+    assert.equal(entry.amount, '1000');
+    assert.equal(entry.priceUsd, 0.001);
+    assert.equal(entry.transaction, '0xabc');
+    assert.equal(entry.error, undefined);
+  });
+  
+  it('classifies unsettled payments', () => {
+    assert.equal(paid({ verified: false, status: 402 }).outcome, 'rejected');
+    assert.equal(paid({ status: 402 }).outcome, 'settlement_failed');
+    
+    const voided = paid({ status: 503, error: 'UPSTREAM_UNAVAILABLE' });
+    assert.equal(voided.outcome, 'voided');
+    assert.equal(voided.error, 'UPSTREAM_UNAVAILABLE');
+  });
+});
+
+describe('creditRequestEntry', () => {
+  it('marks credit-paid calls and voids failed ones', () => {
+    const settled = creditRequestEntry({ route: ROUTE, payer: PAYER.toUpperCase(), price: '$0.002', status: 200, latencyMs: 80 });
+    assert.equal(settled.outcome, 'settled');
+    assert.equal(settled.paidWith, 'credits');
+    assert.equal(settled.payer, PAYER);
+    assert.equal(settled.priceUsd, 0.002);
+    
+    const voided = creditRequestEntry({ route: ROUTE, price: '$0.002', status: 500, latencyMs: 80, error: 'INTERNAL_ERROR' });
+    assert.equal(voided.outcome, 'voided');
+    assert.equal(voided.error, 'INTERNAL_ERROR');
+  });
+});
+
+describe('revenueReport', () => {
+  it('counts settled revenue and failures per skill and payer', () => {
+    const since = new Date(Date.now() - 1000);
+    recordEntry(paid());
+    recordEntry(paid());
+    recordEntry(paid({ status: 402 }));
+    recordEntry(paid({ status: 500 }));
+    
+    // Credit-paid calls count as calls but their revenue was booked at purchase
+    recordEntry(creditRequestEntry({ route: ROUTE, payer: PAYER, price: '$0.002', status: 200, latencyMs: 80 }));
+    recordEntry(creditRequestEntry({ route: ROUTE, payer: PAYER, price: '$0.002', status: 500, latencyMs: 80 }));
+    
+    assert.equal(settledCallCount(PAYER, since.getTime()), 3);
+    
+    const report = revenueReport(since);
+    assert.deepEqual(report.totals, {
+      calls: 6,
+      settled: 3,
+      voided: 2,
+      settlementFailed: 1,
+      rejected: 0,
+      revenueUsd: 0.002,
+      failureRate: 50,
+    });
+    assert.equal(report.bySkill[0].route, ROUTE);
+    assert.deepEqual(report.topPayers, [{ payer: PAYER, settled: 3, revenueUsd: 0.002 }]);
+  });
+});
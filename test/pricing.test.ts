@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { creditsRoute } from '../src/routes/credits.route.js';
+import { priceRoute } from '../src/routes/price.route.js';
+import { signalsRoute } from '../src/routes/signals.route.js';
+import { creditRequestEntry, paidRequestEntry, recordEntry } from '../src/services/ledger.service.js';
+import { quotePrice } from '../src/services/pricing.service.js';
+import { PARTNER, PAYER, paymentHeader, requestContext, routeKey } from './helpers.js';
+
+describe('quotePrice', () => {
+  it('charges the base price to anonymous payers', () => {
+    assert.deepEqual(quotePrice(priceRoute, requestContext()), {
+      price: '$0.001',
+      basePrice: '$0.001',
+      surchargePercent: 0,
+      discountPercent: 0,
+      discount: null,
+    });
+  });
+  
+  it('adds a surcharge for indicators beyond those included', () => {
+    const few = quotePrice(signalsRoute, requestContext({ query: { indicators: 'rsi,macd' } }));
+    assert.equal(few.surchargePercent, 0);
+    assert.equal(few.price, '$0.01');
+    
+    const many = quotePrice(signalsRoute, requestContext({ query: { indicators: 'rsi,sma,macd,volume,bollinger,atr,obv' } }));
+    assert.equal(many.surchargePercent, 10);
+    assert.equal(many.price, '$0.011');
+  });
+  
+  it('discounts partners named in the payer header', () => {
+    const quote = quotePrice(priceRoute, requestContext({ headers: { 'X-Payer-Address': PARTNER } }));
+    assert.equal(quote.discount, 'partner');
+    assert.equal(quote.price, '$0.0006');
+  });
+  
+  it('prices a payment for its signer, not the claimed payer', () => {
+    const quote = quotePrice(priceRoute, requestContext({
+      headers: { 'X-Payer-Address': PARTNER },
+      paymentHeader: paymentHeader('600', PAYER),
+    }));
+    assert.equal(quote.discount, null);
+    assert.equal(quote.price, '$0.001');
+  });
+  
+  it('accepts the full price from a discounted payer who was not identified in the 402', () => {
+    const full = quotePrice(priceRoute, requestContext({ paymentHeader: paymentHeader('1000', PARTNER) }));
+    assert.equal(full.discount, null);
+    assert.equal(full.price, '$0.001');
+    
+    const discounted = quotePrice(priceRoute, requestContext({ paymentHeader: paymentHeader('600', PARTNER) }));
+    assert.equal(discounted.discount, 'partner');
+    assert.equal(discounted.price, '$0.0006');
+  });
+  
+  it('quotes credit sessions for the payer who opened them', () => {
+    const quote = quotePrice(priceRoute, requestContext(), PARTNER);
+    assert.equal(quote.discount, 'partner');
+    assert.equal(quote.price, '$0.0006');
+  });
+  
+  it('never discounts credit purchases', () => {
+    const quote = quotePrice(creditsRoute, requestContext({ headers: { 'X-Payer-Address': PARTNER } }));
+    assert.equal(quote.discount, null);
+    assert.equal(quote.price, quote.basePrice);
+  });
+  
+  it('applies volume tiers once a payer has enough settled calls in the ledger', () => {
+    for (let i = 0; i < 500; i++) {
+      recordEntry(paidRequestEntry({
+        route: routeKey(priceRoute),
+        paymentHeader: paymentHeader('1000', PAYER),
+        verified: true,
+        status: 200,
+        latencyMs: 50,
+      }));
+    }
+    
+    const quote = quotePrice(priceRoute, requestContext({ headers: { 'X-Payer-Address': PAYER } }));
+    assert.equal(quote.discount, 'volume');
+    assert.equal(quote.price, '$0.0009');
+  });
+  
+  it('counts calls paid from credits toward volume tiers', () => {
+    const payer = '0x00000000000000000000000000000000000000cc';
+    for (let i = 0; i < 500; i++) {
+      recordEntry(creditRequestEntry({ route: routeKey(priceRoute), payer, price: '$0.001', status: 200, latencyMs: 50 }));
+    }
+    
+    assert.equal(quotePrice(priceRoute, requestContext(), payer).discount, 'volume');
+  });
+});
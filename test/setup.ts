@@ -0,0 +1,15 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Loaded ahead of every test file (see the test script in package.json).
+// Config is read when the services are first imported, so settings have to be
+// in place before then. Prices follow the example pricing rules, and the files
+// the services write go to a scratch directory outside the working tree.
+const dataDir = mkdtempSync(join(tmpdir(), 'market-analysis-test-'));
+
+process.env.PRICING_RULES_FILE = fileURLToPath(new URL('../pricing.example.json', import.meta.url));
+process.env.LEDGER_FILE = join(dataDir, 'ledger.jsonl');
+process.env.CREDITS_FILE = join(dataDir, 'credits.json');
+process.env.CREDITS_SECRET = 'test-secret';
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Request } from 'express';
+import { batchPricesRoute, priceRoute } from '../src/routes/price.route.js';
+import { streamRoute } from '../src/routes/stream.route.js';
+import { validateRequest } from '../src/validation.js';
+
+const USDC_BASE = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+const request = (fields: Partial<Pick<Request, 'query' | 'params' | 'body'>>) =>
+  ({ query: {}, params: {}, body: {}, ...fields }) as Request;
+
+describe('validateRequest', () => {
+  it('checks contract and pair addresses against the chain', () => {
+    assert.deepEqual(validateRequest(priceRoute, request({ query: { contractAddress: '0x123', chain: 'base' } })), [
+      { field: 'contractAddress', location: 'query', message: 'must be a base token address' },
+    ]);
+    assert.deepEqual(validateRequest(priceRoute, request({ query: { contractAddress: USDC_BASE, chain: 'base', pairAddress: 'pair' } })), [
+      { field: 'pairAddress', location: 'query', message: 'must be a base pair address' },
+    ]);
+    
+    const v4Pool = `0x${'ab'.repeat(32)}`;
+    assert.deepEqual(validateRequest(priceRoute, request({ query: { contractAddress: USDC_BASE, chain: 'base', pairAddress: v4Pool } })), []);
+  });
+  
+  it('validates each item of an array against its schema', () => {
+    const errors = validateRequest(batchPricesRoute, request({ body: { tokens: ['ETH', 5, { contractAddress: 7, chain: 'base' }] } }));
+    assert.deepEqual(errors, [
+      { field: 'tokens[1]', location: 'body', message: 'must be a string or an object' },
+      { field: 'tokens[2].contractAddress', location: 'body', message: 'must be a string' },
+    ]);
+  });
+  
+  it('checks the addresses of each batch token', () => {
+    const errors = validateRequest(batchPricesRoute, request({ body: { tokens: ['ETH', { contractAddress: '0xdead', chain: 'base' }, { chain: 'base' }] } }));
+    assert.deepEqual(errors, [
+      { field: 'tokens[1].contractAddress', location: 'body', message: 'must be a base token address' },
+      { field: 'tokens[2]', location: 'body', message: 'needs a symbol or a contractAddress and chain' },
+    ]);
+  });
+  
+  it('refuses stream symbols the registry cannot resolve', () => {
+    const errors = validateRequest(streamRoute, request({ body: { tokens: ['ETH', 'NOTATOKENXYZ', { contractAddress: USDC_BASE, chain: 'base' }] } }));
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].field, 'tokens[1]');
+    assert.match(errors[0].message, /Unknown token symbol 'NOTATOKENXYZ'/);
+  });
+});